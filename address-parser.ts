@@ -0,0 +1,226 @@
+/**
+ * RFC 5322 address list parser
+ * Handles display names with quoted strings and escapes, comments, groups,
+ * obsolete routes and RFC 2047 encoded words in display names
+ */
+
+import type { EmailAddress } from './eml-parser';
+
+type TokenType = 'atom' | 'quoted' | 'comment' | 'literal' | 'special';
+
+interface Token {
+	type: TokenType;
+	value: string;
+	// Whether whitespace preceded the token
+	space: boolean;
+}
+
+const SPECIALS = '()<>[]:;@\\,.';
+
+// Encoded words may contain specials (non-compliant, but common), so read them as a whole
+const ENCODED_WORD = /=\?[^?\s]+\?[bqBQ]\?[^?\s]*\?=/y;
+
+/**
+ * Read a delimited token (quoted string, comment or domain literal) handling escapes
+ */
+function readDelimited(input: string, start: number, open: string, close: string): { value: string; end: number } {
+	let value = '';
+	let depth = 0;
+	let i = start;
+
+	for (; i < input.length; i++) {
+		const char = input[i];
+		if (char === '\\' && i + 1 < input.length) {
+			value += input[++i];
+			continue;
+		}
+		if (char === open && open !== close) {
+			if (depth > 0) value += char;
+			depth++;
+			continue;
+		}
+		if (char === close) {
+			if (open === close && i === start) {
+				continue;
+			}
+			depth--;
+			if (depth <= 0) {
+				return { value, end: i + 1 };
+			}
+			value += char;
+			continue;
+		}
+		value += char;
+	}
+
+	// Unterminated: take the rest of the input
+	return { value, end: i };
+}
+
+/**
+ * Split a header value into tokens
+ */
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let space = false;
+	let i = 0;
+
+	while (i < input.length) {
+		const char = input[i];
+
+		if (/\s/.test(char)) {
+			space = true;
+			i++;
+			continue;
+		}
+
+		if (char === '"') {
+			const { value, end } = readDelimited(input, i, '"', '"');
+			tokens.push({ type: 'quoted', value, space });
+			i = end;
+		} else if (char === '(') {
+			const { value, end } = readDelimited(input, i, '(', ')');
+			tokens.push({ type: 'comment', value: value.trim(), space });
+			i = end;
+		} else if (char === '[') {
+			const { value, end } = readDelimited(input, i, '[', ']');
+			tokens.push({ type: 'literal', value: `[${value}]`, space });
+			i = end;
+		} else if (SPECIALS.includes(char)) {
+			tokens.push({ type: 'special', value: char, space });
+			i++;
+		} else {
+			ENCODED_WORD.lastIndex = i;
+			const encoded = ENCODED_WORD.exec(input);
+			let end = i;
+			if (encoded) {
+				end = i + encoded[0].length;
+			} else {
+				while (end < input.length && !/\s/.test(input[end]) && !SPECIALS.includes(input[end]) && input[end] !== '"') {
+					end++;
+				}
+			}
+			tokens.push({ type: 'atom', value: input.substring(i, end), space });
+			i = end;
+		}
+
+		space = false;
+	}
+
+	return tokens;
+}
+
+/**
+ * Build a display name from phrase tokens
+ */
+function phraseText(tokens: Token[], decodeWords: (text: string) => string): string {
+	let text = '';
+	for (const token of tokens) {
+		if (token.type === 'comment') continue;
+		if (text && token.space) text += ' ';
+		text += token.value;
+	}
+	return decodeWords(text).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Build an addr-spec from tokens, dropping whitespace and comments
+ */
+function addrSpecText(tokens: Token[]): string {
+	return tokens
+		.filter(token => token.type !== 'comment')
+		.map(token => {
+			// Keep quoted local parts quoted when they need it
+			if (token.type === 'quoted' && /[\s"\\(),:;<>@[\]]/.test(token.value)) {
+				return `"${token.value.replace(/(["\\])/g, '\\$1')}"`;
+			}
+			return token.value;
+		})
+		.join('');
+}
+
+/**
+ * Parse an address list header value (From, To, Cc, Reply-To, ...)
+ * Encoded words are decoded with the given function after tokenizing, so
+ * commas or quotes inside them never split an address
+ */
+export function parseAddressList(input: string, decodeWords: (text: string) => string = text => text): EmailAddress[] {
+	const addresses: EmailAddress[] = [];
+	const tokens = tokenize(input);
+
+	let group: string | null = null;
+	let phrase: Token[] = [];
+	let angle: Token[] | null = null;
+	let inAngle = false;
+
+	const flush = () => {
+		const comments = phrase.filter(token => token.type === 'comment');
+		let address: EmailAddress | null = null;
+
+		if (angle) {
+			// Drop obsolete source routes ("<@relay.example:user@example.com>")
+			const colon = angle.map(token => token.value).lastIndexOf(':');
+			const spec = addrSpecText(colon === -1 ? angle : angle.slice(colon + 1));
+			address = { name: phraseText(phrase, decodeWords), address: spec };
+		} else if (phrase.some(token => token.type !== 'comment')) {
+			// Bare addr-spec, with the old "user@example.com (Name)" convention
+			address = {
+				name: comments.length > 0 ? decodeWords(comments[comments.length - 1].value).trim() : '',
+				address: addrSpecText(phrase)
+			};
+		}
+
+		if (address && (address.address || address.name)) {
+			if (!address.address) {
+				address.address = address.name;
+				address.name = '';
+			}
+			if (group !== null) {
+				address.group = group;
+			}
+			addresses.push(address);
+		}
+
+		phrase = [];
+		angle = null;
+		inAngle = false;
+	};
+
+	for (const token of tokens) {
+		if (inAngle) {
+			if (token.type === 'special' && token.value === '>') {
+				inAngle = false;
+			} else if (token.type !== 'comment' && angle) {
+				angle.push(token);
+			}
+			continue;
+		}
+
+		if (token.type === 'special') {
+			if (token.value === '<') {
+				angle = [];
+				inAngle = true;
+				continue;
+			}
+			if (token.value === ',') {
+				flush();
+				continue;
+			}
+			if (token.value === ':' && group === null && !phrase.some(item => item.value === '@')) {
+				group = phraseText(phrase, decodeWords);
+				phrase = [];
+				continue;
+			}
+			if (token.value === ';' && group !== null) {
+				flush();
+				group = null;
+				continue;
+			}
+		}
+
+		phrase.push(token);
+	}
+
+	flush();
+	return addresses;
+}
@@ -0,0 +1,135 @@
+/**
+ * Rules deciding which attachments are saved to the vault
+ */
+
+import { Attachment } from './eml-parser';
+
+export interface AttachmentFilter {
+	// Size bounds in bytes (0 = no bound)
+	minSize: number;
+	maxSize: number;
+	// MIME types ("image/png", "image/*") and extensions ("pdf", ".dat"); an empty allow list allows everything
+	allow: string[];
+	deny: string[];
+	// Inline images narrower or lower than this many pixels are skipped (0 = keep all)
+	minInlineImageSize: number;
+}
+
+/**
+ * Split a comma or newline separated list setting
+ */
+export function parseFilterList(value: string): string[] {
+	return value
+		.split(/[,\n]/)
+		.map(entry => entry.trim().toLowerCase())
+		.filter(entry => entry);
+}
+
+/**
+ * Read the pixel size of a PNG, GIF, JPEG, BMP or WebP image from its header
+ */
+export function getImageSize(data: Buffer): { width: number; height: number } | null {
+	if (data.length >= 24 && data.toString('hex', 0, 8) === '89504e470d0a1a0a') {
+		return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+	}
+
+	if (data.length >= 10 && data.toString('latin1', 0, 4) === 'GIF8') {
+		return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+	}
+
+	if (data.length >= 26 && data.toString('latin1', 0, 2) === 'BM') {
+		return { width: Math.abs(data.readInt32LE(18)), height: Math.abs(data.readInt32LE(22)) };
+	}
+
+	if (data.length >= 30 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+		const chunk = data.toString('latin1', 12, 16);
+		if (chunk === 'VP8 ') {
+			return { width: data.readUInt16LE(26) & 0x3FFF, height: data.readUInt16LE(28) & 0x3FFF };
+		}
+		if (chunk === 'VP8L') {
+			const bits = data.readUInt32LE(21);
+			return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+		}
+		if (chunk === 'VP8X') {
+			return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+		}
+		return null;
+	}
+
+	if (data.length >= 4 && data[0] === 0xFF && data[1] === 0xD8) {
+		// Walk the JPEG segments up to the start-of-frame marker
+		let offset = 2;
+		while (offset + 9 < data.length) {
+			if (data[offset] !== 0xFF) return null;
+			const marker = data[offset + 1];
+			if (marker === 0xFF) {
+				offset++;
+				continue;
+			}
+			const isFrame = marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+			if (isFrame) {
+				return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+			}
+			offset += 2 + data.readUInt16BE(offset + 2);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check whether a list entry matches an attachment's MIME type or extension
+ */
+function matchesEntry(entry: string, contentType: string, extension: string): boolean {
+	if (entry.includes('/')) {
+		return entry.endsWith('/*')
+			? contentType.startsWith(entry.substring(0, entry.length - 1))
+			: contentType === entry;
+	}
+	return entry.replace(/^\*?\./, '') === extension;
+}
+
+/**
+ * Check if an attachment matches any MIME type or extension of a filter list
+ */
+export function matchesFilterList(attachment: Attachment, entries: string[]): boolean {
+	const contentType = attachment.contentType.toLowerCase();
+	const dotIndex = attachment.filename.lastIndexOf('.');
+	const extension = dotIndex === -1 ? '' : attachment.filename.substring(dotIndex + 1).toLowerCase();
+	return entries.some(entry => matchesEntry(entry, contentType, extension));
+}
+
+/**
+ * Get the reason an attachment should not be saved, or null to save it
+ */
+export function getSkipReason(attachment: Attachment, filter: AttachmentFilter): string | null {
+	const size = attachment.content.length;
+	const contentType = attachment.contentType.toLowerCase();
+	const dotIndex = attachment.filename.lastIndexOf('.');
+	const extension = dotIndex === -1 ? '' : attachment.filename.substring(dotIndex + 1).toLowerCase();
+
+	if (filter.maxSize > 0 && size > filter.maxSize) {
+		return 'too large';
+	}
+	if (filter.minSize > 0 && size < filter.minSize) {
+		return 'too small';
+	}
+
+	if (filter.deny.some(entry => matchesEntry(entry, contentType, extension))) {
+		return 'blocked type';
+	}
+	if (filter.allow.length > 0 && !filter.allow.some(entry => matchesEntry(entry, contentType, extension))) {
+		return 'type not allowed';
+	}
+
+	// Tracking pixels and tiny spacer images
+	const isInline = attachment.disposition === 'inline' || (!!attachment.contentId && attachment.disposition !== 'attachment');
+	if (filter.minInlineImageSize > 0 && isInline && contentType.startsWith('image/')) {
+		const dimensions = getImageSize(attachment.content);
+		if (dimensions && (dimensions.width < filter.minInlineImageSize || dimensions.height < filter.minInlineImageSize)) {
+			return 'inline image too small';
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,86 @@
+/**
+ * Persistent index of saved attachments by content hash
+ * Lets identical files sent in many emails be stored once and linked from every note
+ */
+
+import { createHash } from 'crypto';
+import { DataAdapter } from 'obsidian';
+
+/**
+ * Hash attachment content (SHA-256, hex)
+ */
+export function hashContent(content: Buffer): string {
+	return createHash('sha256').update(content).digest('hex');
+}
+
+export class AttachmentIndex {
+	private adapter: DataAdapter;
+	private path: string;
+	// Content hash -> vault path
+	private entries = new Map<string, string>();
+	private dirty = false;
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = path;
+	}
+
+	/**
+	 * Load the index from disk, starting empty if it is missing or unreadable
+	 */
+	async load(): Promise<void> {
+		this.entries.clear();
+		try {
+			if (!(await this.adapter.exists(this.path))) return;
+			const data = JSON.parse(await this.adapter.read(this.path));
+			for (const [hash, path] of Object.entries(data.attachments || {})) {
+				if (typeof path === 'string') {
+					this.entries.set(hash, path);
+				}
+			}
+		} catch (error) {
+			console.error('Failed to load attachment index:', error);
+		}
+	}
+
+	/**
+	 * Write the index to disk if it changed
+	 */
+	async save(): Promise<void> {
+		if (!this.dirty) return;
+		const attachments: Record<string, string> = {};
+		this.entries.forEach((path, hash) => {
+			attachments[hash] = path;
+		});
+		await this.adapter.write(this.path, JSON.stringify({ version: 1, attachments }, null, '\t'));
+		this.dirty = false;
+	}
+
+	get(hash: string): string | undefined {
+		return this.entries.get(hash);
+	}
+
+	set(hash: string, path: string): void {
+		if (this.entries.get(hash) === path) return;
+		this.entries.set(hash, path);
+		this.dirty = true;
+	}
+
+	delete(hash: string): void {
+		if (this.entries.delete(hash)) {
+			this.dirty = true;
+		}
+	}
+
+	/**
+	 * Follow a file moved or renamed in the vault
+	 */
+	rename(oldPath: string, newPath: string): void {
+		this.entries.forEach((path, hash) => {
+			if (path === oldPath) {
+				this.entries.set(hash, newPath);
+				this.dirty = true;
+			}
+		});
+	}
+}
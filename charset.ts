@@ -0,0 +1,231 @@
+/**
+ * Charset decoding for email content
+ * Decodes bytes through TextDecoder, which supports all charsets of the WHATWG
+ * Encoding standard (Shift_JIS, ISO-2022-JP, GBK, Big5, KOI8-R, windows-125x, ...)
+ */
+
+// Charset names seen in mail that TextDecoder does not know as labels
+const CHARSET_ALIASES: Record<string, string> = {
+	'utf8': 'utf-8',
+	'cp1250': 'windows-1250',
+	'cp1251': 'windows-1251',
+	'cp1252': 'windows-1252',
+	'cp1253': 'windows-1253',
+	'cp1254': 'windows-1254',
+	'cp1257': 'windows-1257',
+	'cp932': 'shift_jis',
+	'ms932': 'shift_jis',
+	'x-sjis': 'shift_jis',
+	'sjis': 'shift_jis',
+	'cp936': 'gbk',
+	'cp949': 'euc-kr',
+	'ks_c_5601-1987': 'euc-kr',
+	'cp950': 'big5',
+	'big5-hkscs': 'big5',
+	'iso-2022-jp-2': 'iso-2022-jp',
+	'cp866': 'ibm866',
+	'ansi_x3.4-1968': 'us-ascii'
+};
+
+// Windows code pages (used by Outlook .msg files) mapped to charset labels
+const CODE_PAGES: Record<number, string> = {
+	866: 'ibm866',
+	874: 'windows-874',
+	932: 'shift_jis',
+	936: 'gbk',
+	949: 'euc-kr',
+	950: 'big5',
+	1200: 'utf-16le',
+	1201: 'utf-16be',
+	1250: 'windows-1250',
+	1251: 'windows-1251',
+	1252: 'windows-1252',
+	1253: 'windows-1253',
+	1254: 'windows-1254',
+	1255: 'windows-1255',
+	1256: 'windows-1256',
+	1257: 'windows-1257',
+	1258: 'windows-1258',
+	20127: 'us-ascii',
+	20866: 'koi8-r',
+	21866: 'koi8-u',
+	28591: 'iso-8859-1',
+	28592: 'iso-8859-2',
+	28593: 'iso-8859-3',
+	28594: 'iso-8859-4',
+	28595: 'iso-8859-5',
+	28596: 'iso-8859-6',
+	28597: 'iso-8859-7',
+	28598: 'iso-8859-8',
+	28599: 'iso-8859-9',
+	28603: 'iso-8859-13',
+	28605: 'iso-8859-15',
+	50220: 'iso-2022-jp',
+	50221: 'iso-2022-jp',
+	50222: 'iso-2022-jp',
+	51932: 'euc-jp',
+	51949: 'euc-kr',
+	54936: 'gb18030',
+	65001: 'utf-8'
+};
+
+// Declared charsets that are often used for content that really is UTF-8
+const WESTERN_CHARSETS = ['us-ascii', 'iso-8859-1', 'windows-1252', 'latin1'];
+
+// Candidates tried when no usable charset is declared, with the script they produce
+const DETECTION_CANDIDATES: { charset: string; script: RegExp; latin?: boolean; marker?: RegExp }[] = [
+	{ charset: 'shift_jis', script: /[\u3040-\u30FF\u4E00-\u9FFF\uFF61-\uFF9F]/, marker: /[\u3040-\u30FF]/ },
+	{ charset: 'euc-jp', script: /[\u3040-\u30FF\u4E00-\u9FFF]/, marker: /[\u3040-\u30FF]/ },
+	// Korean goes before Chinese: Hangul bytes also decode as (rare) Chinese characters
+	{ charset: 'euc-kr', script: /[\uAC00-\uD7AF\u3130-\u318F]/ },
+	{ charset: 'gb18030', script: /[\u4E00-\u9FFF\u3000-\u303F\uFF00-\uFFEF]/ },
+	{ charset: 'big5', script: /[\u4E00-\u9FFF\u3000-\u303F\uFF00-\uFFEF]/ },
+	{ charset: 'windows-1251', script: /[\u0401\u0404\u0406\u0407\u0410-\u044F\u0451\u0454\u0456\u0457]/ },
+	{ charset: 'koi8-r', script: /[\u0401\u0404\u0406\u0407\u0410-\u044F\u0451\u0454\u0456\u0457]/ },
+	{ charset: 'windows-1252', script: /[\u00A0-\u00FF\u20AC\u2018-\u201E\u2026]/, latin: true },
+	{ charset: 'iso-8859-2', script: /[\u00C0-\u017F]/, latin: true }
+];
+
+const decoders = new Map<string, TextDecoder | null>();
+
+/**
+ * Get a cached decoder for a charset label, or null if it is not supported
+ */
+function getDecoder(label: string): TextDecoder | null {
+	if (!decoders.has(label)) {
+		try {
+			decoders.set(label, new TextDecoder(label));
+		} catch (e) {
+			decoders.set(label, null);
+		}
+	}
+	return decoders.get(label) || null;
+}
+
+/**
+ * Decode strictly, returning null when the bytes are invalid for the charset
+ */
+function decodeStrict(bytes: Uint8Array, label: string): string | null {
+	try {
+		return new TextDecoder(label, { fatal: true }).decode(bytes);
+	} catch (e) {
+		return null;
+	}
+}
+
+/**
+ * Normalize a declared charset to a label TextDecoder supports, or '' if unknown
+ */
+export function normalizeCharset(charset: string): string {
+	const lower = charset.trim().replace(/^["']|["']$/g, '').toLowerCase();
+	if (!lower) return '';
+
+	const label = CHARSET_ALIASES[lower] || lower;
+	const decoder = getDecoder(label);
+	if (!decoder) return '';
+
+	// The WHATWG standard decodes ASCII labels as windows-1252, keep the declared name
+	return label === 'us-ascii' ? label : decoder.encoding;
+}
+
+/**
+ * Map a Windows code page number to a charset label
+ */
+export function codePageToCharset(codePage: number): string {
+	return CODE_PAGES[codePage] || '';
+}
+
+/**
+ * Check if all bytes are 7-bit
+ */
+function isAscii(bytes: Uint8Array): boolean {
+	for (let i = 0; i < bytes.length; i++) {
+		if (bytes[i] > 0x7F) return false;
+	}
+	return true;
+}
+
+/**
+ * Guess the charset of bytes without (or with an unusable) charset declaration
+ */
+export function detectCharset(bytes: Uint8Array): string {
+	// Byte order marks
+	if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+	if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+	if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+
+	if (isAscii(bytes)) {
+		// ISO-2022-JP is 7-bit and switches character sets with escape sequences
+		for (let i = 0; i + 2 < bytes.length; i++) {
+			if (bytes[i] === 0x1B && (bytes[i + 1] === 0x24 || bytes[i + 1] === 0x28)) {
+				return 'iso-2022-jp';
+			}
+		}
+		return 'utf-8';
+	}
+
+	if (decodeStrict(bytes, 'utf-8') !== null) {
+		return 'utf-8';
+	}
+
+	// Score candidates by how much of the non-ASCII text lands in their script
+	let best = 'windows-1252';
+	let bestScore = 0;
+	for (const candidate of DETECTION_CANDIDATES) {
+		const text = decodeStrict(bytes, candidate.charset);
+		if (text === null) continue;
+
+		let nonAscii = 0;
+		let inScript = 0;
+		let lowercase = 0;
+		let uppercase = 0;
+		let mixed = 0;
+		for (let i = 0; i < text.length; i++) {
+			const char = text[i];
+			if (char.charCodeAt(0) < 0x80) continue;
+			nonAscii++;
+			if (candidate.script.test(char)) inScript++;
+			if (char !== char.toUpperCase()) lowercase++;
+			if (char !== char.toLowerCase()) uppercase++;
+			if (/[A-Za-z]/.test(text[i - 1] || '') || /[A-Za-z]/.test(text[i + 1] || '')) mixed++;
+		}
+		if (nonAscii === 0) continue;
+
+		// Non-Latin scripts do not share words with ASCII letters, accented Latin letters do
+		let penalty = candidate.latin ? 0.5 * (nonAscii - mixed) / nonAscii : mixed / nonAscii;
+		// Japanese text practically always contains kana
+		if (candidate.marker && !candidate.marker.test(text)) penalty += 0.5;
+		// Running text is mostly lowercase, which tells KOI8-R and windows-1251 apart
+		const score = inScript / nonAscii - penalty + 0.1 * ((lowercase - uppercase) / nonAscii);
+		if (score > bestScore) {
+			best = candidate.charset;
+			bestScore = score;
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Decode bytes using the declared charset, detecting it when it is missing or wrong
+ */
+export function decodeBytes(bytes: Uint8Array, charset = ''): string {
+	let label = normalizeCharset(charset);
+
+	if (!label) {
+		label = detectCharset(bytes);
+	} else if (label === 'utf-8') {
+		// Declared UTF-8 that is not valid UTF-8 was mislabelled
+		const text = decodeStrict(bytes, 'utf-8');
+		if (text !== null) return text;
+		label = detectCharset(bytes);
+	} else if (WESTERN_CHARSETS.includes(label) && !isAscii(bytes)) {
+		// Western declarations are often a default that mislabels UTF-8 or other content
+		label = label === 'us-ascii' || decodeStrict(bytes, 'utf-8') !== null
+			? detectCharset(bytes)
+			: label;
+	}
+
+	const decoder = getDecoder(label) || getDecoder('utf-8');
+	return (decoder as TextDecoder).decode(bytes);
+}
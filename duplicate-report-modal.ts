@@ -0,0 +1,46 @@
+import { App, Modal, TFile } from 'obsidian';
+
+/**
+ * Lists messages converted to more than one note, with links to open each note
+ */
+export class DuplicateReportModal extends Modal {
+	private duplicates: { messageId: string; paths: string[] }[];
+
+	constructor(app: App, duplicates: { messageId: string; paths: string[] }[]) {
+		super(app);
+		this.duplicates = duplicates;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Duplicate email notes');
+
+		const noteCount = this.duplicates.reduce((count, duplicate) => count + duplicate.paths.length, 0);
+		contentEl.createEl('p', { text: `${this.duplicates.length} message(s) have ${noteCount} notes in total.` });
+
+		const container = contentEl.createDiv();
+		container.style.maxHeight = '400px';
+		container.style.overflow = 'auto';
+
+		for (const duplicate of this.duplicates) {
+			container.createEl('h4', { text: duplicate.messageId });
+			const list = container.createEl('ul');
+			for (const path of duplicate.paths) {
+				const link = list.createEl('li').createEl('a', { text: path, href: '#' });
+				link.addEventListener('click', (event) => {
+					event.preventDefault();
+					const file = this.app.vault.getAbstractFileByPath(path);
+					if (file instanceof TFile) {
+						this.app.workspace.getLeaf(true).openFile(file);
+						this.close();
+					}
+				});
+			}
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
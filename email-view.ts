@@ -0,0 +1,213 @@
+import { FileView, TFile, WorkspaceLeaf, sanitizeHTMLToDom } from 'obsidian';
+import type EmlToMarkdownPlugin from './main';
+import { Attachment, ParsedEmail, formatEmailAddresses } from './eml-parser';
+
+export const EMAIL_VIEW_TYPE = 'eml-to-markdown-email';
+
+/**
+ * Read-only view of an email file, rendered straight from the parser output
+ */
+export class EmailView extends FileView {
+	private plugin: EmlToMarkdownPlugin;
+	private email: ParsedEmail | null = null;
+	// Object URLs of attachments, released when the file is closed
+	private objectUrls: string[] = [];
+	// Remote images reveal that the email was opened, so they load only on request
+	private loadRemoteImages = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: EmlToMarkdownPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+
+		this.addAction('file-output', 'Convert to note', () => {
+			if (!this.file) return;
+			if (this.plugin.settings.previewManualConversion) {
+				this.plugin.openConversionPreview(this.file);
+			} else {
+				this.plugin.convertFile(this.file);
+			}
+		});
+	}
+
+	getViewType(): string {
+		return EMAIL_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return this.email?.subject || this.file?.basename || 'Email';
+	}
+
+	getIcon(): string {
+		return 'mail';
+	}
+
+	async onLoadFile(file: TFile): Promise<void> {
+		this.contentEl.empty();
+		this.loadRemoteImages = false;
+		try {
+			this.email = await this.plugin.readEmailFile(file);
+			this.render(this.email);
+		} catch (error) {
+			console.error('EML view error:', error);
+			this.contentEl.createEl('p', { text: `Failed to read ${file.name}: ${(error as Error).message}` });
+		}
+	}
+
+	async onUnloadFile(file: TFile): Promise<void> {
+		this.email = null;
+		this.releaseObjectUrls();
+		this.contentEl.empty();
+	}
+
+	async onClose(): Promise<void> {
+		this.releaseObjectUrls();
+	}
+
+	private releaseObjectUrls(): void {
+		this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+		this.objectUrls = [];
+	}
+
+	private getObjectUrl(attachment: Attachment): string {
+		const url = URL.createObjectURL(new Blob([attachment.content], { type: attachment.contentType }));
+		this.objectUrls.push(url);
+		return url;
+	}
+
+	private render(email: ParsedEmail): void {
+		const container = this.contentEl.createDiv({ cls: 'eml-to-markdown-view markdown-rendered' });
+		container.style.padding = 'var(--size-4-4)';
+		container.style.userSelect = 'text';
+
+		container.createEl('h2', { text: email.subject || 'Untitled Email' });
+
+		// Headers
+		const headers: [string, string][] = [
+			['From', formatEmailAddresses(email.from)],
+			['To', formatEmailAddresses(email.to)],
+			['CC', formatEmailAddresses(email.cc)],
+			['Reply-To', formatEmailAddresses(email.replyTo)],
+			['Date', this.plugin.formatDate(email.date)]
+		];
+		const table = container.createEl('table');
+		for (const [label, value] of headers) {
+			if (!value) continue;
+			const row = table.createEl('tr');
+			row.createEl('th', { text: label });
+			row.createEl('td', { text: value });
+		}
+
+		// Attachments, opened or saved through the browser
+		const files = email.attachments.filter(attachment => !attachment.contentId || attachment.disposition === 'attachment');
+		if (files.length > 0) {
+			const bar = container.createDiv({ cls: 'eml-to-markdown-attachments' });
+			bar.style.display = 'flex';
+			bar.style.flexWrap = 'wrap';
+			bar.style.gap = 'var(--size-4-2)';
+			bar.style.margin = 'var(--size-4-2) 0';
+			for (const attachment of files) {
+				const button = bar.createEl('button', { text: attachment.filename });
+				button.addEventListener('click', () => {
+					const link = document.createElement('a');
+					link.href = this.getObjectUrl(attachment);
+					link.download = attachment.filename;
+					link.click();
+				});
+			}
+		}
+
+		container.createEl('hr');
+
+		// Body
+		const body = container.createDiv({ cls: 'eml-to-markdown-body' });
+		if (email.htmlBody) {
+			const fragment = sanitizeHTMLToDom(email.htmlBody);
+			// Style sheets of the email would apply to the whole app, not just the body
+			fragment.querySelectorAll('style, link').forEach(element => element.remove());
+
+			const blocked = this.loadRemoteImages ? 0 : blockRemoteImages(fragment);
+			if (blocked > 0) {
+				const bar = body.createDiv({ cls: 'eml-to-markdown-remote-images' });
+				bar.style.display = 'flex';
+				bar.style.alignItems = 'center';
+				bar.style.gap = 'var(--size-4-2)';
+				bar.style.margin = 'var(--size-4-2) 0';
+				bar.createSpan({ text: `${blocked} remote image(s) blocked.` });
+				bar.createEl('button', { text: 'Load images' }).addEventListener('click', () => {
+					this.loadRemoteImages = true;
+					this.releaseObjectUrls();
+					this.contentEl.empty();
+					this.render(email);
+				});
+			}
+
+			// Inline images reference attachments by content id
+			fragment.querySelectorAll('img').forEach(img => {
+				const src = img.getAttribute('src') || '';
+				if (!src.toLowerCase().startsWith('cid:')) return;
+				const contentId = src.substring(4);
+				const attachment = email.attachments.find(item => item.contentId === contentId);
+				if (attachment) {
+					img.setAttribute('src', this.getObjectUrl(attachment));
+				}
+			});
+			body.appendChild(fragment);
+		} else if (email.textBody) {
+			const text = body.createDiv({ text: email.textBody });
+			text.style.whiteSpace = 'pre-wrap';
+		} else {
+			body.createEl('p', { text: 'This email has no body.' });
+		}
+
+		// Forwarded messages, listed by subject
+		if (email.attachedMessages.length > 0) {
+			container.createEl('hr');
+			container.createEl('h4', { text: 'Attached messages' });
+			const list = container.createEl('ul');
+			for (const attached of email.attachedMessages) {
+				const from = formatEmailAddresses(attached.from);
+				list.createEl('li', { text: `${attached.subject || 'Untitled Email'}${from ? ` (${from})` : ''}` });
+			}
+		}
+	}
+}
+
+// URLs fetched from the network (including protocol-relative "//host/..." URLs)
+const REMOTE_URL_PATTERN = /^\s*(https?:)?\/\//i;
+const REMOTE_SRCSET_PATTERN = /(^|,)\s*(https?:)?\/\//i;
+const REMOTE_CSS_URL_PATTERN = /url\(\s*['"]?\s*(https?:)?\/\/[^)]*\)/gi;
+
+/**
+ * Remove images and backgrounds loaded from remote servers (tracking pixels among them),
+ * returning how many elements referenced one
+ */
+function blockRemoteImages(fragment: DocumentFragment): number {
+	let blocked = 0;
+	fragment.querySelectorAll('*').forEach(element => {
+		let remote = false;
+		for (const name of ['src', 'srcset', 'background', 'poster']) {
+			const value = element.getAttribute(name);
+			if (value && (name === 'srcset' ? REMOTE_SRCSET_PATTERN : REMOTE_URL_PATTERN).test(value)) {
+				element.removeAttribute(name);
+				remote = true;
+			}
+		}
+
+		// CSS backgrounds in style attributes
+		const style = element.getAttribute('style');
+		if (style && blockRemoteCss(style) !== style) {
+			element.setAttribute('style', blockRemoteCss(style));
+			remote = true;
+		}
+
+		if (remote) blocked++;
+	});
+	return blocked;
+}
+
+/**
+ * Replace remote URLs in CSS so nothing is fetched
+ */
+function blockRemoteCss(css: string): string {
+	return css.replace(REMOTE_CSS_URL_PATTERN, 'none');
+}
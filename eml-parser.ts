@@ -3,9 +3,17 @@
  * Parses .eml files without external dependencies
  */
 
+import { parseAddressList } from './address-parser';
+import { decodeBytes } from './charset';
+import { CalendarEvent, parseCalendar } from './ics';
+import { isTnef, parseTnef } from './tnef';
+import { BodyDecoder, createBodyDecoder } from './transfer-encoding';
+
 export interface EmailAddress {
 	name: string;
 	address: string;
+	// Name of the group the address was listed in ("Team: a@example.com, b@example.com;")
+	group?: string;
 }
 
 export interface Attachment {
@@ -13,6 +21,8 @@ export interface Attachment {
 	contentType: string;
 	content: Buffer;
 	contentId?: string;
+	// Content-Disposition type, when the part declared one
+	disposition?: 'inline' | 'attachment';
 }
 
 export interface ParsedEmail {
@@ -20,155 +30,126 @@ export interface ParsedEmail {
 	to: EmailAddress[];
 	cc: EmailAddress[];
 	bcc: EmailAddress[];
+	replyTo: EmailAddress[];
+	sender: EmailAddress | null;
+	deliveredTo: EmailAddress[];
 	subject: string;
 	date: Date | null;
 	messageId: string;
+	inReplyTo: string;
+	references: string[];
+	listId: string;
 	textBody: string;
 	htmlBody: string;
 	attachments: Attachment[];
+	attachedMessages: ParsedEmail[];
+	// Events of meeting invitations (text/calendar parts)
+	events: CalendarEvent[];
+	// Size of the raw message in bytes
+	size: number;
 }
 
-/**
- * Parse an email address string like "John Doe <john@example.com>" or just "john@example.com"
- */
-function parseEmailAddress(str: string): EmailAddress {
-	str = str.trim();
-	const match = str.match(/^"?([^"<]*)"?\s*<([^>]+)>$/);
-	if (match) {
-		return {
-			name: match[1].trim().replace(/^"|"$/g, ''),
-			address: match[2].trim()
-		};
-	}
-	// Just an email address
-	return {
-		name: '',
-		address: str
-	};
-}
-
-/**
- * Parse a list of email addresses (comma-separated)
- */
-function parseEmailAddresses(str: string): EmailAddress[] {
-	if (!str) return [];
-
-	const addresses: EmailAddress[] = [];
-	let current = '';
-	let inQuotes = false;
-	let inAngleBrackets = false;
-
-	for (let i = 0; i < str.length; i++) {
-		const char = str[i];
-
-		if (char === '"' && str[i - 1] !== '\\') {
-			inQuotes = !inQuotes;
-		} else if (char === '<' && !inQuotes) {
-			inAngleBrackets = true;
-		} else if (char === '>' && !inQuotes) {
-			inAngleBrackets = false;
-		} else if (char === ',' && !inQuotes && !inAngleBrackets) {
-			if (current.trim()) {
-				addresses.push(parseEmailAddress(current));
-			}
-			current = '';
-			continue;
-		}
+// Headers holding address lists, kept undecoded so encoded words are decoded per address
+const ADDRESS_HEADERS = ['from', 'to', 'cc', 'bcc', 'reply-to', 'sender', 'delivered-to'];
 
-		current += char;
-	}
+// Maximum depth of messages attached to messages (message/rfc822 parts)
+const MAX_NESTING_DEPTH = 10;
 
-	if (current.trim()) {
-		addresses.push(parseEmailAddress(current));
-	}
+// Longest line kept whole while looking for its end; longer body lines are read in pieces
+const MAX_LINE_LENGTH = 8192;
+// Longest line that can be a boundary (70 characters plus dashes and trailing whitespace)
+const MAX_BOUNDARY_LINE_LENGTH = 256;
 
-	return addresses;
-}
+const LF = 0x0A;
+const CR = 0x0D;
+const DASH = 0x2D;
 
 /**
- * Decode a MIME encoded word (=?charset?encoding?text?=)
+ * Parse a list of message ids like "<a@example.com> <b@example.com>"
  */
-function decodeMimeWord(str: string): string {
-	return str.replace(/=\?([^?]+)\?([BQ])\?([^?]+)\?=/gi, (match, charset, encoding, text) => {
-		try {
-			const nodeCharset = normalizeCharset(charset);
-			if (encoding.toUpperCase() === 'B') {
-				// Base64
-				return Buffer.from(text, 'base64').toString(nodeCharset);
-			} else if (encoding.toUpperCase() === 'Q') {
-				// Q-encoding: underscores are spaces, =XX are hex bytes
-				const withSpaces = text.replace(/_/g, ' ');
-				const bytes: number[] = [];
-				let i = 0;
-				while (i < withSpaces.length) {
-					if (withSpaces[i] === '=' && i + 2 < withSpaces.length) {
-						const hex = withSpaces.substring(i + 1, i + 3);
-						if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
-							bytes.push(parseInt(hex, 16));
-							i += 3;
-							continue;
-						}
-					}
-					bytes.push(withSpaces.charCodeAt(i));
-					i++;
-				}
-				return Buffer.from(bytes).toString(nodeCharset);
-			}
-		} catch (e) {
-			// Return original on error
-		}
-		return match;
-	});
+function parseMessageIds(str: string): string[] {
+	const ids: string[] = [];
+	const regex = /<([^<>\s]+)>/g;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(str)) !== null) {
+		ids.push(match[1]);
+	}
+	// Some clients omit the angle brackets
+	if (ids.length === 0 && str.trim() && !/\s/.test(str.trim())) {
+		ids.push(str.trim());
+	}
+	return ids;
 }
 
 /**
- * Decode quoted-printable to raw bytes (for binary attachments)
+ * Decode the text of a single encoded word to raw bytes
  */
-function decodeQuotedPrintableToBuffer(str: string): Buffer {
-	// First remove soft line breaks
-	const withoutSoftBreaks = str.replace(/=\r?\n/g, '');
+function decodeMimeWordBytes(encoding: string, text: string): Buffer {
+	if (encoding.toUpperCase() === 'B') {
+		// Base64
+		return Buffer.from(text, 'base64');
+	}
 
-	// Convert quoted-printable to byte array
+	// Q-encoding: underscores are spaces, =XX are hex bytes
+	const withSpaces = text.replace(/_/g, ' ');
 	const bytes: number[] = [];
 	let i = 0;
-	while (i < withoutSoftBreaks.length) {
-		if (withoutSoftBreaks[i] === '=' && i + 2 < withoutSoftBreaks.length) {
-			const hex = withoutSoftBreaks.substring(i + 1, i + 3);
+	while (i < withSpaces.length) {
+		if (withSpaces[i] === '=' && i + 2 < withSpaces.length) {
+			const hex = withSpaces.substring(i + 1, i + 3);
 			if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
 				bytes.push(parseInt(hex, 16));
 				i += 3;
 				continue;
 			}
 		}
-		bytes.push(withoutSoftBreaks.charCodeAt(i));
+		bytes.push(withSpaces.charCodeAt(i));
 		i++;
 	}
-
 	return Buffer.from(bytes);
 }
 
 /**
- * Decode quoted-printable content to string using specified charset
+ * Decode MIME encoded words (=?charset?encoding?text?=)
+ * Adjacent words are joined before decoding, since encoders may split
+ * a multi-byte character across two words
  */
-function decodeQuotedPrintable(str: string, charset: BufferEncoding = 'utf-8'): string {
-	const buffer = decodeQuotedPrintableToBuffer(str);
-	try {
-		return buffer.toString(charset);
-	} catch (e) {
-		// Fallback: return as-is if decoding fails
-		return str.replace(/=\r?\n/g, '');
-	}
-}
+function decodeMimeWord(str: string): string {
+	const wordPattern = /=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi;
+	const runPattern = /=\?[^?]+\?[BQ]\?[^?]*\?=(?:\s*=\?[^?]+\?[BQ]\?[^?]*\?=)*/gi;
 
-/**
- * Decode base64 content using specified charset
- */
-function decodeBase64(str: string, charset: BufferEncoding = 'utf-8'): string {
-	try {
-		return Buffer.from(str.replace(/\s/g, ''), 'base64').toString(charset);
-	} catch (e) {
-		return str;
-	}
+	return str.replace(runPattern, (run) => {
+		try {
+			let decoded = '';
+			let pendingCharset = '';
+			let pendingBytes: Buffer[] = [];
+
+			const flush = () => {
+				if (pendingBytes.length > 0) {
+					decoded += decodeBytes(Buffer.concat(pendingBytes), pendingCharset);
+				}
+				pendingBytes = [];
+			};
+
+			let match: RegExpExecArray | null;
+			wordPattern.lastIndex = 0;
+			while ((match = wordPattern.exec(run)) !== null) {
+				// RFC 2231 allows a language suffix: =?utf-8*en?Q?...?=
+				const charset = match[1].split('*')[0].toLowerCase();
+				if (charset !== pendingCharset) {
+					flush();
+					pendingCharset = charset;
+				}
+				pendingBytes.push(decodeMimeWordBytes(match[2], match[3]));
+			}
+			flush();
+
+			return decoded;
+		} catch (e) {
+			// Return original on error
+			return run;
+		}
+	});
 }
 
 /**
@@ -186,8 +167,14 @@ function parseHeaders(headerText: string): Map<string, string> {
 		const colonIndex = line.indexOf(':');
 		if (colonIndex > 0) {
 			const key = line.substring(0, colonIndex).trim().toLowerCase();
-			const value = decodeMimeWord(line.substring(colonIndex + 1).trim());
-			headers.set(key, value);
+			const rawValue = line.substring(colonIndex + 1).trim();
+			if (ADDRESS_HEADERS.includes(key)) {
+				// Repeated address headers (like Delivered-To) are combined into one list
+				const existing = headers.get(key);
+				headers.set(key, existing ? `${existing}, ${rawValue}` : rawValue);
+			} else {
+				headers.set(key, decodeMimeWord(rawValue));
+			}
 		}
 	}
 
@@ -218,134 +205,115 @@ function getContentType(headers: Map<string, string>): string {
 }
 
 /**
- * Normalize charset name to Node.js BufferEncoding
- * Node's Buffer only supports: utf-8, latin1, ascii, hex, base64, etc.
+ * Get charset from content-type (empty if not declared)
  */
-function normalizeCharset(charset: string): BufferEncoding {
-	const lower = charset.toLowerCase().replace(/[^a-z0-9]/g, '');
-	// Map common email charsets to Node.js equivalents
-	if (lower === 'iso88591' || lower === 'latin1' || lower === 'windows1252' ||
-		lower === 'cp1252' || lower === 'iso885915') {
-		return 'latin1';
-	}
-	if (lower === 'usascii' || lower === 'ascii') {
-		return 'ascii';
-	}
-	// Default to utf-8 for utf8, utf-8, and unknown charsets
-	return 'utf-8';
+function getCharset(headers: Map<string, string>): string {
+	return getParameter(headers.get('content-type') || '', 'charset') || '';
 }
 
 /**
- * Get charset from content-type
+ * Get a header parameter value, including RFC 2231 extended values
+ * (name*=charset'lang'%XX..) and continuations (name*0=..; name*1*=..)
  */
-function getCharset(headers: Map<string, string>): BufferEncoding {
-	const ct = headers.get('content-type') || '';
-	const match = ct.match(/charset\s*=\s*"?([^";]+)"?/i);
-	return match ? normalizeCharset(match[1]) : 'utf-8';
-}
+function getParameter(headerValue: string, name: string): string | null {
+	const params = new Map<string, { value: string; extended: boolean }>();
+	const paramPattern = /;\s*([^\s=;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+
+	let match: RegExpExecArray | null;
+	while ((match = paramPattern.exec(headerValue)) !== null) {
+		const key = match[1].toLowerCase();
+		let value = match[2].trim();
+		if (value.startsWith('"')) {
+			value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+		}
+		params.set(key.replace(/\*$/, ''), { value, extended: key.endsWith('*') });
+	}
 
-/**
- * Get filename from content-disposition or content-type
- */
-function getFilename(headers: Map<string, string>): string | null {
-	const disposition = headers.get('content-disposition') || '';
-	const contentType = headers.get('content-type') || '';
+	const target = name.toLowerCase();
 
-	// Try content-disposition first
-	let match = disposition.match(/filename\*?=\s*(?:utf-8'')?["']?([^"';\r\n]+)["']?/i);
-	if (match) {
-		return decodeMimeWord(decodeURIComponent(match[1]));
+	// Collect continuation segments name*0, name*1, ...
+	const segments: { value: string; extended: boolean }[] = [];
+	for (let i = 0; params.has(`${target}*${i}`); i++) {
+		segments.push(params.get(`${target}*${i}`) as { value: string; extended: boolean });
 	}
-
-	// Try content-type name parameter
-	match = contentType.match(/name\s*=\s*"?([^";]+)"?/i);
-	if (match) {
-		return decodeMimeWord(match[1]);
+	if (segments.length === 0) {
+		const single = params.get(target);
+		if (!single) return null;
+		segments.push(single);
 	}
 
-	return null;
+	// The charset is declared once, at the start of the first extended segment
+	let charset = '';
+	const bytes: number[] = [];
+	segments.forEach((segment, index) => {
+		let value = segment.value;
+		if (segment.extended && index === 0) {
+			const parts = value.split("'");
+			if (parts.length >= 3) {
+				charset = parts[0];
+				value = parts.slice(2).join("'");
+			}
+		}
+		if (segment.extended) {
+			for (let i = 0; i < value.length; i++) {
+				if (value[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(value.substring(i + 1, i + 3))) {
+					bytes.push(parseInt(value.substring(i + 1, i + 3), 16));
+					i += 2;
+				} else {
+					bytes.push(value.charCodeAt(i));
+				}
+			}
+		} else {
+			bytes.push(...Array.from(Buffer.from(value, 'utf-8')));
+		}
+	});
+
+	return decodeBytes(Buffer.from(bytes), charset || 'utf-8');
 }
 
 /**
- * Decode content based on transfer encoding and charset
+ * Get filename from content-disposition or content-type
  */
-function decodeContent(content: string, encoding: string, charset: BufferEncoding = 'utf-8'): string {
-	switch (encoding) {
-		case 'base64':
-			return decodeBase64(content, charset);
-		case 'quoted-printable':
-			return decodeQuotedPrintable(content, charset);
-		default:
-			return content;
-	}
+function getFilename(headers: Map<string, string>): string | null {
+	// Try content-disposition first, then the content-type name parameter
+	const filename = getParameter(headers.get('content-disposition') || '', 'filename') ||
+		getParameter(headers.get('content-type') || '', 'name');
+
+	// Some clients put encoded words inside the quoted parameter
+	return filename ? decodeMimeWord(filename) : null;
 }
 
 /**
- * Decode binary content to Buffer
+ * Check if a content type holds an attached message
  */
-function decodeContentToBuffer(content: string, encoding: string): Buffer {
-	switch (encoding) {
-		case 'base64':
-			return Buffer.from(content.replace(/\s/g, ''), 'base64');
-		case 'quoted-printable':
-			// Use raw buffer decoder for binary data, not UTF-8 text decoder
-			return decodeQuotedPrintableToBuffer(content);
-		default:
-			return Buffer.from(content, 'binary');
-	}
+function isMessageType(contentType: string): boolean {
+	return contentType === 'message/rfc822' || contentType === 'message/global';
 }
 
 /**
- * Parse a MIME part
+ * Add a decoded leaf part to the parsed email: body, calendar, attached message or attachment
  */
-function parseMimePart(
-	partText: string,
-	result: ParsedEmail,
-	isTopLevel: boolean = false
-): void {
-	// Split headers and body
-	const headerEndIndex = partText.search(/\r?\n\r?\n/);
-	if (headerEndIndex === -1) {
-		return;
-	}
-
-	const headerText = partText.substring(0, headerEndIndex);
-	const bodyText = partText.substring(headerEndIndex).replace(/^\r?\n\r?\n/, '');
-
-	const headers = parseHeaders(headerText);
+function addPart(result: ParsedEmail, headers: Map<string, string>, content: Buffer, depth: number): void {
 	const contentType = getContentType(headers);
-	const encoding = getEncoding(headers);
 	const charset = getCharset(headers);
 
-	// Check if multipart
-	if (contentType.startsWith('multipart/')) {
-		const boundary = extractBoundary(headers.get('content-type') || '');
-		if (boundary) {
-			const parts = bodyText.split(new RegExp(`--${escapeRegex(boundary)}(?:--)?`));
-			// Skip first (preamble) and last (epilogue) parts
-			for (let i = 1; i < parts.length - 1; i++) {
-				const part = parts[i].trim();
-				if (part && part !== '--') {
-					parseMimePart(part, result);
-				}
-			}
-		}
+	// Attached messages sent base64 or quoted-printable encoded, parsed once decoded
+	if (isMessageType(contentType) && depth < MAX_NESTING_DEPTH) {
+		result.attachedMessages.push(parseEmlAtDepth(content, depth + 1));
 		return;
 	}
 
 	// Handle text content
 	if (contentType === 'text/plain') {
-		const decoded = decodeContent(bodyText, encoding, charset);
 		if (!result.textBody) {
-			result.textBody = decoded;
+			result.textBody = decodeBytes(content, charset);
 		}
 		return;
 	}
 
 	if (contentType === 'text/html') {
-		const decoded = decodeContent(bodyText, encoding, charset);
 		if (!result.htmlBody) {
-			result.htmlBody = decoded;
+			result.htmlBody = decodeBytes(content, charset);
 		}
 		return;
 	}
@@ -354,26 +322,88 @@ function parseMimePart(
 	const disposition = headers.get('content-disposition') || '';
 	const filename = getFilename(headers);
 
+	// Meeting invitations, often sent both inline and as an .ics attachment
+	if (contentType === 'text/calendar' || contentType === 'application/ics') {
+		for (const event of parseCalendar(decodeBytes(content, charset))) {
+			const isDuplicate = result.events.some(existing =>
+				existing.uid === event.uid && existing.sequence === event.sequence &&
+				existing.start?.getTime() === event.start?.getTime());
+			if (!isDuplicate) {
+				result.events.push(event);
+			}
+		}
+		// Named calendar files are kept as attachments too
+		if (!filename && !disposition.includes('attachment')) {
+			return;
+		}
+	}
+
 	// Check if it's an attachment or inline content
 	if (filename || disposition.includes('attachment') ||
 		(!contentType.startsWith('text/') && !contentType.startsWith('multipart/'))) {
 
+		// Unwrap Outlook's winmail.dat into its body and attachments
+		if ((contentType === 'application/ms-tnef' || contentType === 'application/vnd.ms-tnef' ||
+			filename?.toLowerCase() === 'winmail.dat') && isTnef(content)) {
+			try {
+				const tnef = parseTnef(content, depth + 1);
+				if (!result.textBody) result.textBody = tnef.textBody;
+				if (!result.htmlBody) result.htmlBody = tnef.htmlBody;
+				result.attachments.push(...tnef.attachments);
+				result.attachedMessages.push(...tnef.attachedMessages);
+				return;
+			} catch (e) {
+				// Keep the undecodable stream as an attachment
+				console.error('Failed to decode TNEF attachment:', e);
+			}
+		}
+
 		const attachment: Attachment = {
 			filename: filename || `attachment_${result.attachments.length + 1}`,
 			contentType: contentType,
-			content: decodeContentToBuffer(bodyText, encoding),
+			content,
 			contentId: headers.get('content-id')?.replace(/[<>]/g, '')
 		};
 
+		const dispositionType = disposition.split(';')[0].trim().toLowerCase();
+		if (dispositionType === 'inline' || dispositionType === 'attachment') {
+			attachment.disposition = dispositionType;
+		}
+
 		result.attachments.push(attachment);
 	}
 }
 
 /**
- * Escape special regex characters
+ * Fill the header fields of a parsed email from its top-level headers
  */
-function escapeRegex(str: string): string {
-	return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function applyMessageHeaders(result: ParsedEmail, headers: Map<string, string>): void {
+	result.from = parseAddressList(headers.get('from') || '', decodeMimeWord);
+	result.to = parseAddressList(headers.get('to') || '', decodeMimeWord);
+	result.cc = parseAddressList(headers.get('cc') || '', decodeMimeWord);
+	result.bcc = parseAddressList(headers.get('bcc') || '', decodeMimeWord);
+	result.replyTo = parseAddressList(headers.get('reply-to') || '', decodeMimeWord);
+	result.sender = parseAddressList(headers.get('sender') || '', decodeMimeWord)[0] || null;
+	result.deliveredTo = parseAddressList(headers.get('delivered-to') || '', decodeMimeWord);
+	result.subject = headers.get('subject') || '';
+	result.messageId = (headers.get('message-id') || '').replace(/[<>]/g, '');
+	result.inReplyTo = parseMessageIds(headers.get('in-reply-to') || '')[0] || '';
+	result.references = parseMessageIds(headers.get('references') || '');
+
+	// List-Id: "Description <list.example.com>" or just "list.example.com"
+	const listId = headers.get('list-id') || '';
+	const listIdMatch = listId.match(/<([^<>]+)>/);
+	result.listId = (listIdMatch ? listIdMatch[1] : listId).trim();
+
+	// Parse date
+	const dateStr = headers.get('date');
+	if (dateStr) {
+		try {
+			result.date = new Date(dateStr);
+		} catch (e) {
+			result.date = null;
+		}
+	}
 }
 
 /**
@@ -407,173 +437,245 @@ export function htmlToPlainText(html: string): string {
 }
 
 /**
- * Check if a URL has a safe protocol (http, https, mailto, or cid for inline images)
+ * Parse an EML file content, as bytes or as text
  */
-function isSafeUrl(url: string): boolean {
-	const trimmed = url.trim().toLowerCase();
-	return trimmed.startsWith('http://') ||
-		trimmed.startsWith('https://') ||
-		trimmed.startsWith('mailto:') ||
-		trimmed.startsWith('cid:');
+export function parseEml(content: string | Uint8Array): ParsedEmail {
+	return parseEmlAtDepth(typeof content === 'string' ? Buffer.from(content, 'utf-8') : content, 0);
 }
 
 /**
- * Sanitize a URL, returning empty string if unsafe
+ * Parse a message at the given nesting depth
  */
-function sanitizeUrl(url: string): string {
-	return isSafeUrl(url) ? url : '';
+function parseEmlAtDepth(data: Uint8Array, depth: number): ParsedEmail {
+	const parser = new EmlStreamParser(depth);
+	parser.write(data);
+	return parser.end();
 }
 
 /**
- * Convert HTML to Markdown (basic conversion)
+ * A MIME entity being read: the message itself or one of its (nested) parts
  */
-export function htmlToMarkdown(html: string): string {
-	return html
-		// Remove scripts and styles
-		.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-		.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-		// Headers
-		.replace(/<h1[^>]*>(.*?)<\/h1>/gi, '# $1\n\n')
-		.replace(/<h2[^>]*>(.*?)<\/h2>/gi, '## $1\n\n')
-		.replace(/<h3[^>]*>(.*?)<\/h3>/gi, '### $1\n\n')
-		.replace(/<h4[^>]*>(.*?)<\/h4>/gi, '#### $1\n\n')
-		.replace(/<h5[^>]*>(.*?)<\/h5>/gi, '##### $1\n\n')
-		.replace(/<h6[^>]*>(.*?)<\/h6>/gi, '###### $1\n\n')
-		// Bold and italic
-		.replace(/<strong[^>]*>(.*?)<\/strong>/gi, '**$1**')
-		.replace(/<b[^>]*>(.*?)<\/b>/gi, '**$1**')
-		.replace(/<em[^>]*>(.*?)<\/em>/gi, '*$1*')
-		.replace(/<i[^>]*>(.*?)<\/i>/gi, '*$1*')
-		// Links - sanitize URLs to prevent javascript:, file://, etc.
-		.replace(/<a[^>]+href="([^"]*)"[^>]*>(.*?)<\/a>/gi, (match, url, text) => {
-			const safeUrl = sanitizeUrl(url);
-			return safeUrl ? `[${text}](${safeUrl})` : text;
-		})
-		// Images - sanitize URLs
-		.replace(/<img[^>]+src="([^"]*)"[^>]*alt="([^"]*)"[^>]*\/?>/gi, (match, url, alt) => {
-			const safeUrl = sanitizeUrl(url);
-			return safeUrl ? `![${alt}](${safeUrl})` : alt;
-		})
-		.replace(/<img[^>]+src="([^"]*)"[^>]*\/?>/gi, (match, url) => {
-			const safeUrl = sanitizeUrl(url);
-			return safeUrl ? `![](${safeUrl})` : '';
-		})
-		// Lists
-		.replace(/<ul[^>]*>/gi, '\n')
-		.replace(/<\/ul>/gi, '\n')
-		.replace(/<ol[^>]*>/gi, '\n')
-		.replace(/<\/ol>/gi, '\n')
-		.replace(/<li[^>]*>(.*?)<\/li>/gi, '- $1\n')
-		// Line breaks and paragraphs
-		.replace(/<br\s*\/?>/gi, '\n')
-		.replace(/<\/p>/gi, '\n\n')
-		.replace(/<p[^>]*>/gi, '')
-		.replace(/<\/div>/gi, '\n')
-		.replace(/<div[^>]*>/gi, '')
-		// Blockquotes
-		.replace(/<blockquote[^>]*>(.*?)<\/blockquote>/gis, (match, content) => {
-			return content.split('\n').map((line: string) => '> ' + line).join('\n') + '\n\n';
-		})
-		// Code
-		.replace(/<code[^>]*>(.*?)<\/code>/gi, '`$1`')
-		.replace(/<pre[^>]*>(.*?)<\/pre>/gis, '```\n$1\n```\n\n')
-		// Horizontal rule
-		.replace(/<hr[^>]*\/?>/gi, '\n---\n\n')
-		// Tables (basic)
-		.replace(/<\/tr>/gi, '|\n')
-		.replace(/<\/th>/gi, ' | ')
-		.replace(/<\/td>/gi, ' | ')
-		.replace(/<tr[^>]*>/gi, '|')
-		.replace(/<th[^>]*>/gi, '')
-		.replace(/<td[^>]*>/gi, '')
-		.replace(/<\/?table[^>]*>/gi, '\n')
-		.replace(/<\/?thead[^>]*>/gi, '')
-		.replace(/<\/?tbody[^>]*>/gi, '')
-		// Remove remaining tags
-		.replace(/<[^>]+>/g, '')
-		// Decode HTML entities
-		.replace(/&nbsp;/g, ' ')
-		.replace(/&amp;/g, '&')
-		.replace(/&lt;/g, '<')
-		.replace(/&gt;/g, '>')
-		.replace(/&quot;/g, '"')
-		.replace(/&apos;/g, "'")
-		.replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(parseInt(dec, 10)))
-		.replace(/&#x([0-9A-Fa-f]+);/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)))
-		// Clean up whitespace
-		.replace(/\n{3,}/g, '\n\n')
-		.trim();
+interface Entity {
+	// Raw header lines, until the blank line that ends the headers
+	headerLines: Buffer[];
+	headers: Map<string, string> | null;
+	// Boundary of a multipart entity, whose own body (preamble, epilogue) is ignored
+	boundary: string | null;
+	// Decoder of a leaf part, or the parser of a message attached unencoded
+	decoder: BodyDecoder | null;
+	message: EmlStreamParser | null;
+	// Line break after the last body line, dropped if a boundary follows
+	pendingBreak: Buffer | null;
+}
+
+/**
+ * Create an entity whose headers are about to be read
+ */
+function createEntity(): Entity {
+	return { headerLines: [], headers: null, boundary: null, decoder: null, message: null, pendingBreak: null };
 }
 
 /**
- * Parse an EML file content
+ * Create a parsed email without any field set
  */
-export function parseEml(content: string): ParsedEmail {
-	const result: ParsedEmail = {
+function createEmptyEmail(): ParsedEmail {
+	return {
 		from: [],
 		to: [],
 		cc: [],
 		bcc: [],
+		replyTo: [],
+		sender: null,
+		deliveredTo: [],
 		subject: '',
 		date: null,
 		messageId: '',
+		inReplyTo: '',
+		references: [],
+		listId: '',
 		textBody: '',
 		htmlBody: '',
-		attachments: []
+		attachments: [],
+		attachedMessages: [],
+		events: [],
+		size: 0
 	};
+}
 
-	// Split headers and body at first blank line
-	const headerEndIndex = content.search(/\r?\n\r?\n/);
-	if (headerEndIndex === -1) {
-		return result;
+/**
+ * Streaming MIME parser, fed the bytes of a message in chunks as they are read
+ * Parts are decoded while they are read and only their decoded content is kept,
+ * so memory stays close to the size of the attachments, whatever the size of the file
+ */
+export class EmlStreamParser {
+	private result: ParsedEmail = createEmptyEmail();
+	private depth: number;
+	private root: Entity = createEntity();
+	// The message, then each open part down to the one being read
+	private stack: Entity[] = [this.root];
+	// Start of a line that continues in the next chunk
+	private carry: Buffer = Buffer.alloc(0);
+	// The last line read was a piece of a long line
+	private midLine = false;
+	private size = 0;
+
+	constructor(depth = 0) {
+		this.depth = depth;
 	}
 
-	const headerText = content.substring(0, headerEndIndex);
-	const bodyText = content.substring(headerEndIndex).replace(/^\r?\n\r?\n/, '');
+	/**
+	 * Read the next bytes of the message
+	 */
+	write(chunk: Uint8Array): void {
+		const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+		this.size += data.length;
+		const buffer = this.carry.length > 0 ? Buffer.concat([this.carry, data]) : data;
+
+		let start = 0;
+		let lineEnd = buffer.indexOf(LF, start);
+		while (lineEnd !== -1) {
+			this.readLine(buffer.subarray(start, lineEnd + 1));
+			start = lineEnd + 1;
+			lineEnd = buffer.indexOf(LF, start);
+		}
 
-	// Parse top-level headers
-	const headers = parseHeaders(headerText);
+		// A long body line cannot be a boundary and is passed on without waiting for its end
+		const rest = buffer.subarray(start);
+		if (rest.length > MAX_LINE_LENGTH && this.stack[this.stack.length - 1].headers) {
+			this.readLine(rest);
+			this.carry = Buffer.alloc(0);
+		} else {
+			this.carry = Buffer.from(rest);
+		}
+	}
 
-	result.from = parseEmailAddresses(headers.get('from') || '');
-	result.to = parseEmailAddresses(headers.get('to') || '');
-	result.cc = parseEmailAddresses(headers.get('cc') || '');
-	result.bcc = parseEmailAddresses(headers.get('bcc') || '');
-	result.subject = headers.get('subject') || '';
-	result.messageId = (headers.get('message-id') || '').replace(/[<>]/g, '');
+	/**
+	 * Finish reading and get the parsed email (parts left open by a truncated message included)
+	 */
+	end(): ParsedEmail {
+		if (this.carry.length > 0) {
+			const rest = this.carry;
+			this.carry = Buffer.alloc(0);
+			this.readLine(rest);
+		}
+		while (this.stack.length > 0) {
+			this.finishEntity(this.stack.pop() as Entity);
+		}
+		this.result.size = this.size;
+		return this.result;
+	}
 
-	// Parse date
-	const dateStr = headers.get('date');
-	if (dateStr) {
-		try {
-			result.date = new Date(dateStr);
-		} catch (e) {
-			result.date = null;
+	/**
+	 * Handle a line with its line break (none for the last line or a piece of a long line)
+	 */
+	private readLine(line: Buffer): void {
+		const atLineStart = !this.midLine;
+		const hasBreak = line.length > 0 && line[line.length - 1] === LF;
+		this.midLine = !hasBreak;
+
+		let contentEnd = hasBreak ? line.length - 1 : line.length;
+		if (hasBreak && contentEnd > 0 && line[contentEnd - 1] === CR) {
+			contentEnd--;
 		}
+		const content = line.subarray(0, contentEnd);
+
+		if (atLineStart && this.readBoundary(content)) {
+			return;
+		}
+
+		const entity = this.stack[this.stack.length - 1];
+		if (!entity.headers) {
+			if (content.length === 0) {
+				this.startBody(entity);
+			} else {
+				entity.headerLines.push(Buffer.from(line));
+			}
+			return;
+		}
+
+		const sink = entity.message || entity.decoder;
+		if (entity.boundary || !sink) {
+			return;
+		}
+		if (entity.pendingBreak) {
+			sink.write(entity.pendingBreak);
+		}
+		sink.write(content);
+		entity.pendingBreak = hasBreak ? line.subarray(contentEnd) : null;
 	}
 
-	// Parse body
-	const contentType = getContentType(headers);
-	const encoding = getEncoding(headers);
-	const charset = getCharset(headers);
+	/**
+	 * Handle a boundary line of one of the open multipart entities
+	 * Returns false if the line is not a boundary
+	 */
+	private readBoundary(content: Buffer): boolean {
+		if (content.length < 3 || content.length > MAX_BOUNDARY_LINE_LENGTH || content[0] !== DASH || content[1] !== DASH) {
+			return false;
+		}
+		const text = content.toString('latin1').replace(/\s+$/, '');
 
-	if (contentType.startsWith('multipart/')) {
-		const boundary = extractBoundary(headers.get('content-type') || '');
-		if (boundary) {
-			const parts = bodyText.split(new RegExp(`--${escapeRegex(boundary)}(?:--)?`));
-			for (let i = 1; i < parts.length; i++) {
-				const part = parts[i].trim();
-				if (part && part !== '--') {
-					parseMimePart(part, result);
-				}
+		for (let i = this.stack.length - 1; i >= 0; i--) {
+			const boundary = this.stack[i].boundary;
+			if (!boundary) continue;
+
+			const isClose = text === `--${boundary}--`;
+			if (!isClose && text !== `--${boundary}`) continue;
+
+			// The boundary ends every part opened inside this multipart
+			while (this.stack.length > i + 1) {
+				this.finishEntity(this.stack.pop() as Entity);
 			}
+			if (!isClose) {
+				this.stack.push(createEntity());
+			}
+			return true;
 		}
-	} else if (contentType === 'text/plain') {
-		result.textBody = decodeContent(bodyText, encoding, charset);
-	} else if (contentType === 'text/html') {
-		result.htmlBody = decodeContent(bodyText, encoding, charset);
+		return false;
 	}
 
-	return result;
+	/**
+	 * Parse the headers of an entity and prepare for its body
+	 */
+	private startBody(entity: Entity): void {
+		const headers = parseHeaders(decodeBytes(Buffer.concat(entity.headerLines)));
+		entity.headerLines = [];
+		entity.headers = headers;
+
+		if (entity === this.root) {
+			applyMessageHeaders(this.result, headers);
+		}
+
+		const contentType = getContentType(headers);
+		const encoding = getEncoding(headers);
+		if (contentType.startsWith('multipart/')) {
+			// Without a boundary the parts cannot be told apart and are ignored
+			entity.boundary = extractBoundary(headers.get('content-type') || '');
+		} else if (isMessageType(contentType) && this.depth < MAX_NESTING_DEPTH &&
+			encoding !== 'base64' && encoding !== 'quoted-printable') {
+			entity.message = new EmlStreamParser(this.depth + 1);
+		} else {
+			entity.decoder = createBodyDecoder(encoding);
+		}
+	}
+
+	/**
+	 * Add a completely read entity to the parsed email
+	 */
+	private finishEntity(entity: Entity): void {
+		if (!entity.headers) {
+			// Nothing after the boundary, or a part cut off in its headers
+			if (entity.headerLines.length === 0) return;
+			this.startBody(entity);
+		}
+
+		if (entity.message) {
+			this.result.attachedMessages.push(entity.message.end());
+		} else if (entity.decoder) {
+			addPart(this.result, entity.headers as Map<string, string>, entity.decoder.end(), this.depth);
+		}
+		entity.message = null;
+		entity.decoder = null;
+	}
 }
 
 /**
@@ -592,3 +694,17 @@ export function formatEmailAddress(addr: EmailAddress): string {
 export function formatEmailAddresses(addrs: EmailAddress[]): string {
 	return addrs.map(formatEmailAddress).join(', ');
 }
+
+/**
+ * Get the id identifying the thread an email belongs to (the id of its root message)
+ */
+export function getThreadId(email: ParsedEmail): string {
+	return email.references[0] || email.inReplyTo || email.messageId;
+}
+
+/**
+ * Strip reply and forward prefixes (Re:, Fwd:, AW:, ...) from a subject
+ */
+export function normalizeSubject(subject: string): string {
+	return subject.replace(/^(\s*(re|fw|fwd|aw|wg|sv|vs)(\[\d+\])?\s*:\s*)+/i, '').trim();
+}
@@ -0,0 +1,373 @@
+/**
+ * RFC 5322 / MIME message writer, the reverse of the EML parser
+ * Non-ASCII headers become encoded words, text bodies quoted-printable and attachments base64
+ */
+
+import { randomBytes } from 'crypto';
+import { EmailAddress } from './eml-parser';
+
+export interface OutgoingAttachment {
+	filename: string;
+	contentType: string;
+	content: Uint8Array;
+	// Set for images the HTML body shows inline (<img src="cid:...">)
+	contentId?: string;
+}
+
+export interface OutgoingEmail {
+	from: EmailAddress[];
+	to: EmailAddress[];
+	cc: EmailAddress[];
+	bcc: EmailAddress[];
+	replyTo: EmailAddress[];
+	subject: string;
+	date: Date;
+	messageId: string;
+	inReplyTo: string;
+	references: string[];
+	textBody: string;
+	htmlBody: string;
+	attachments: OutgoingAttachment[];
+	// Unsent drafts open for editing in mail clients (X-Unsent)
+	draft: boolean;
+}
+
+/**
+ * A MIME entity: headers, and either a body or child entities
+ */
+interface Entity {
+	headers: string[];
+	body?: string;
+	parts?: Entity[];
+}
+
+const CRLF = '\r\n';
+// Longest header line before folding
+const MAX_HEADER_LINE_LENGTH = 78;
+// Longest encoded line of quoted-printable and base64 bodies
+const MAX_BODY_LINE_LENGTH = 76;
+// UTF-8 bytes per encoded word, so that a word fits on a header line after the header name
+const MAX_ENCODED_WORD_BYTES = 39;
+
+// Content types of common attachment extensions
+const CONTENT_TYPES: Record<string, string> = {
+	pdf: 'application/pdf',
+	zip: 'application/zip',
+	json: 'application/json',
+	doc: 'application/msword',
+	docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	xls: 'application/vnd.ms-excel',
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	ppt: 'application/vnd.ms-powerpoint',
+	pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+	odt: 'application/vnd.oasis.opendocument.text',
+	ods: 'application/vnd.oasis.opendocument.spreadsheet',
+	eml: 'message/rfc822',
+	ics: 'text/calendar',
+	txt: 'text/plain',
+	md: 'text/markdown',
+	csv: 'text/csv',
+	html: 'text/html',
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	svg: 'image/svg+xml',
+	bmp: 'image/bmp',
+	mp3: 'audio/mpeg',
+	wav: 'audio/wav',
+	m4a: 'audio/mp4',
+	mp4: 'video/mp4',
+	webm: 'video/webm',
+	mov: 'video/quicktime'
+};
+
+/**
+ * Guess the content type of a file from its extension
+ */
+export function getContentTypeForFile(filename: string): string {
+	const dot = filename.lastIndexOf('.');
+	const extension = dot === -1 ? '' : filename.substring(dot + 1).toLowerCase();
+	return CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * Create a new unique message id at a domain
+ */
+export function createMessageId(domain: string): string {
+	return `${Date.now().toString(36)}.${randomBytes(8).toString('hex')}@${domain || 'localhost'}`;
+}
+
+/**
+ * Check if a string is plain printable ASCII
+ */
+function isAscii(text: string): boolean {
+	return /^[\x20-\x7E\t]*$/.test(text);
+}
+
+/**
+ * Encode text as UTF-8 "B" encoded words, never splitting a character between two words
+ */
+function encodeWords(text: string): string[] {
+	const words: string[] = [];
+	let chunk = '';
+	let chunkBytes = 0;
+	for (const char of Array.from(text)) {
+		const bytes = Buffer.byteLength(char, 'utf8');
+		if (chunkBytes + bytes > MAX_ENCODED_WORD_BYTES) {
+			words.push(chunk);
+			chunk = '';
+			chunkBytes = 0;
+		}
+		chunk += char;
+		chunkBytes += bytes;
+	}
+	if (chunk) {
+		words.push(chunk);
+	}
+	return words.map(word => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`);
+}
+
+/**
+ * Encode unstructured header text (like a subject), as encoded words when it is not plain ASCII
+ */
+function encodeHeaderText(text: string): string {
+	return isAscii(text) ? text : encodeWords(text).join(' ');
+}
+
+/**
+ * Fold a header line at spaces so that lines stay within 78 characters where possible
+ */
+function foldHeader(name: string, value: string): string {
+	const words = value.split(' ');
+	const lines: string[] = [];
+	let line = `${name}:`;
+	for (const word of words) {
+		if (line.length + 1 + word.length > MAX_HEADER_LINE_LENGTH && line.trim().length > name.length + 1) {
+			lines.push(line);
+			line = '';
+		}
+		line += ` ${word}`;
+	}
+	lines.push(line);
+	return lines.join(CRLF);
+}
+
+/**
+ * Format an address for an address header: quoted or encoded display name and the address
+ */
+function formatAddress(addr: EmailAddress): string {
+	if (!addr.name || addr.name === addr.address) {
+		return addr.address;
+	}
+	if (!isAscii(addr.name)) {
+		return `${encodeWords(addr.name).join(' ')} <${addr.address}>`;
+	}
+	// Names with specials (like "Doe, John") are quoted
+	const name = /^[\w!#$%&'*+\-/=?^`{|}~ ]+$/.test(addr.name)
+		? addr.name
+		: `"${addr.name.replace(/(["\\])/g, '\\$1')}"`;
+	return `${name} <${addr.address}>`;
+}
+
+/**
+ * Format a date as an RFC 5322 date-time in local time, like "Tue, 1 Jul 2025 10:52:37 +0200"
+ */
+export function formatEmailDate(date: Date): string {
+	const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+	const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+	const pad = (value: number) => (value < 10 ? '0' : '') + value;
+	const offset = -date.getTimezoneOffset();
+	const absOffset = Math.abs(offset);
+	return `${days[date.getDay()]}, ${date.getDate()} ${months[date.getMonth()]} ${date.getFullYear()} ` +
+		`${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())} ` +
+		`${offset < 0 ? '-' : '+'}${pad(Math.floor(absOffset / 60))}${pad(absOffset % 60)}`;
+}
+
+/**
+ * Format a header parameter, with an RFC 2231 extended value for non-ASCII text
+ */
+function formatParameter(name: string, value: string): string {
+	if (isAscii(value)) {
+		return `${name}="${value.replace(/(["\\])/g, '\\$1')}"`;
+	}
+	const encoded = encodeURIComponent(value).replace(/['()*!]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+	return `${name}*=UTF-8''${encoded}`;
+}
+
+/**
+ * Quoted-printable escape of a byte, like "=3D"
+ */
+function escapeByte(byte: number): string {
+	return `=${byte < 16 ? '0' : ''}${byte.toString(16).toUpperCase()}`;
+}
+
+/**
+ * Encode text as UTF-8 quoted-printable with CRLF line breaks
+ */
+function encodeQuotedPrintable(text: string): string {
+	return text.split(/\r?\n/).map(line => {
+		const bytes = Buffer.from(line, 'utf8');
+		const encodedLines: string[] = [];
+		let encoded = '';
+		for (let i = 0; i < bytes.length; i++) {
+			const byte = bytes[i];
+			const isLast = i === bytes.length - 1;
+			let token: string;
+			if ((byte === 0x20 || byte === 0x09) && isLast) {
+				// Trailing whitespace would be stripped in transit
+				token = escapeByte(byte);
+			} else if ((byte >= 0x21 && byte <= 0x7E && byte !== 0x3D) || byte === 0x20 || byte === 0x09) {
+				token = String.fromCharCode(byte);
+			} else {
+				token = escapeByte(byte);
+			}
+			// "From " at the start of a line would be mangled by mbox tools
+			if (i === 0 && line.startsWith('From ')) {
+				token = '=46';
+			}
+			// Soft line break, leaving room for the "="
+			if (encoded.length + token.length > MAX_BODY_LINE_LENGTH - 1) {
+				encodedLines.push(`${encoded}=`);
+				encoded = '';
+			}
+			encoded += token;
+		}
+		encodedLines.push(encoded);
+		return encodedLines.join(CRLF);
+	}).join(CRLF);
+}
+
+/**
+ * Encode bytes as base64 in lines of 76 characters
+ */
+function encodeBase64(content: Uint8Array): string {
+	const base64 = Buffer.from(content.buffer, content.byteOffset, content.byteLength).toString('base64');
+	const lines: string[] = [];
+	for (let i = 0; i < base64.length; i += MAX_BODY_LINE_LENGTH) {
+		lines.push(base64.substring(i, i + MAX_BODY_LINE_LENGTH));
+	}
+	return lines.join(CRLF);
+}
+
+/**
+ * Build a text part, quoted-printable encoded
+ */
+function createTextEntity(subtype: 'plain' | 'html', text: string): Entity {
+	return {
+		headers: [
+			`Content-Type: text/${subtype}; charset=UTF-8`,
+			'Content-Transfer-Encoding: quoted-printable'
+		],
+		body: encodeQuotedPrintable(text)
+	};
+}
+
+/**
+ * Build an attachment part, base64 encoded
+ */
+function createAttachmentEntity(attachment: OutgoingAttachment): Entity {
+	const disposition = attachment.contentId ? 'inline' : 'attachment';
+	const nameParameter = isAscii(attachment.filename)
+		? formatParameter('name', attachment.filename)
+		: `name="${encodeWords(attachment.filename).join(' ')}"`;
+	const headers = [
+		`Content-Type: ${attachment.contentType};${CRLF}\t${nameParameter}`,
+		'Content-Transfer-Encoding: base64',
+		`Content-Disposition: ${disposition};${CRLF}\t${formatParameter('filename', attachment.filename)}`
+	];
+	if (attachment.contentId) {
+		headers.push(`Content-ID: <${attachment.contentId}>`);
+	}
+	return { headers, body: encodeBase64(attachment.content) };
+}
+
+/**
+ * Build a multipart entity around its parts
+ */
+function createMultipartEntity(subtype: 'mixed' | 'alternative' | 'related', parts: Entity[]): Entity {
+	return { headers: [`Content-Type: multipart/${subtype}`], parts };
+}
+
+/**
+ * Write an entity with its headers, adding a fresh boundary to multipart entities
+ */
+function writeEntity(entity: Entity): string {
+	if (!entity.parts) {
+		return `${entity.headers.join(CRLF)}${CRLF}${CRLF}${entity.body || ''}`;
+	}
+
+	const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+	const headers = entity.headers.map(header =>
+		header.startsWith('Content-Type: multipart/') ? `${header};${CRLF}\tboundary="${boundary}"` : header);
+	const parts = entity.parts.map(part => `--${boundary}${CRLF}${writeEntity(part)}${CRLF}`);
+	return `${headers.join(CRLF)}${CRLF}${CRLF}This is a multi-part message in MIME format.${CRLF}${CRLF}` +
+		`${parts.join('')}--${boundary}--${CRLF}`;
+}
+
+/**
+ * Reject a header value with a line break, which would end the header and start another (header injection)
+ */
+function checkHeaderValue(name: string, value: string): void {
+	if (/[\r\n]/.test(value)) {
+		throw new Error(`Line break in ${name} header value`);
+	}
+}
+
+/**
+ * Build the raw bytes of an email message
+ */
+export function buildEml(email: OutgoingEmail): Buffer {
+	checkHeaderValue('Subject', email.subject);
+	checkHeaderValue('Message-ID', email.messageId);
+	checkHeaderValue('In-Reply-To', email.inReplyTo);
+	email.references.forEach(id => checkHeaderValue('References', id));
+	for (const address of [...email.from, ...email.to, ...email.cc, ...email.bcc, ...email.replyTo]) {
+		checkHeaderValue('address', `${address.group || ''} ${address.name} ${address.address}`);
+	}
+
+	const headers: string[] = [foldHeader('Date', formatEmailDate(email.date))];
+	const addressHeaders: [string, EmailAddress[]][] = [
+		['From', email.from], ['To', email.to], ['Cc', email.cc], ['Bcc', email.bcc], ['Reply-To', email.replyTo]
+	];
+	for (const [name, addresses] of addressHeaders) {
+		if (addresses.length > 0) {
+			headers.push(foldHeader(name, addresses.map(formatAddress).join(', ')));
+		}
+	}
+	headers.push(foldHeader('Subject', encodeHeaderText(email.subject)));
+	headers.push(`Message-ID: <${email.messageId}>`);
+	if (email.inReplyTo) {
+		headers.push(`In-Reply-To: <${email.inReplyTo}>`);
+	}
+	if (email.references.length > 0) {
+		headers.push(foldHeader('References', email.references.map(id => `<${id}>`).join(' ')));
+	}
+	if (email.draft) {
+		headers.push('X-Unsent: 1');
+	}
+	headers.push('MIME-Version: 1.0');
+
+	// Text and HTML bodies as alternatives, images shown by the HTML body next to it
+	const inline = email.attachments.filter(attachment => attachment.contentId);
+	const attached = email.attachments.filter(attachment => !attachment.contentId);
+
+	const bodies: Entity[] = [];
+	if (email.textBody || !email.htmlBody) {
+		bodies.push(createTextEntity('plain', email.textBody));
+	}
+	if (email.htmlBody) {
+		const html = createTextEntity('html', email.htmlBody);
+		bodies.push(inline.length > 0
+			? createMultipartEntity('related', [html, ...inline.map(createAttachmentEntity)])
+			: html);
+	}
+	let body = bodies.length > 1 ? createMultipartEntity('alternative', bodies) : bodies[0];
+	if (attached.length > 0) {
+		body = createMultipartEntity('mixed', [body, ...attached.map(createAttachmentEntity)]);
+	}
+
+	const entity = writeEntity({ ...body, headers: [...headers, ...body.headers] });
+	return Buffer.from(entity.endsWith(CRLF) ? entity : entity + CRLF, 'utf8');
+}
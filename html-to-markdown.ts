@@ -0,0 +1,398 @@
+/**
+ * HTML to Markdown converter
+ * Walks the DOM built by DOMParser instead of rewriting the HTML with regexes,
+ * so nesting (lists, tables, blockquotes, inline markup) is preserved
+ */
+
+// Elements whose content is never rendered
+const SKIPPED_ELEMENTS = new Set([
+	'script', 'style', 'head', 'title', 'meta', 'link', 'noscript', 'template', 'object', 'iframe', 'svg'
+]);
+
+// Elements rendered as blocks separated by blank lines
+const BLOCK_ELEMENTS = new Set([
+	'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'details', 'dialog', 'dir', 'div', 'dl', 'dt',
+	'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html',
+	'li', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+	'tr', 'ul'
+]);
+
+interface ConvertContext {
+	// Inside a link, where nested links are not allowed
+	inLink: boolean;
+}
+
+/**
+ * Check if a URL has a safe protocol (http, https, mailto, or cid for inline images)
+ */
+function isSafeUrl(url: string): boolean {
+	const trimmed = url.trim().toLowerCase();
+	return trimmed.startsWith('http://') ||
+		trimmed.startsWith('https://') ||
+		trimmed.startsWith('mailto:') ||
+		trimmed.startsWith('cid:');
+}
+
+/**
+ * Sanitize a URL for use in Markdown, returning empty string if unsafe
+ */
+function sanitizeUrl(url: string): string {
+	if (!isSafeUrl(url)) {
+		return '';
+	}
+	return url.trim()
+		.replace(/\s/g, '%20')
+		.replace(/\(/g, '%28')
+		.replace(/\)/g, '%29');
+}
+
+function isBlock(node: Node): boolean {
+	return node.nodeType === Node.ELEMENT_NODE && BLOCK_ELEMENTS.has((node as Element).tagName.toLowerCase());
+}
+
+function isHidden(element: Element): boolean {
+	const style = element.getAttribute('style') || '';
+	return /display\s*:\s*none/i.test(style) || element.hasAttribute('hidden');
+}
+
+/**
+ * Collapse whitespace in text nodes the way a browser renders it,
+ * dropping whitespace at the start and end of blocks
+ */
+function collapseWhitespace(root: Element): void {
+	let previousText: Text | null = null;
+	let keepLeadingSpace = false;
+
+	const endRun = () => {
+		if (previousText) {
+			previousText.data = previousText.data.replace(/ $/, '');
+		}
+		previousText = null;
+		keepLeadingSpace = false;
+	};
+
+	const walk = (node: Node) => {
+		for (const child of Array.from(node.childNodes)) {
+			if (child.nodeType === Node.TEXT_NODE) {
+				const text = child as Text;
+				let data = text.data.replace(/[ \t\r\n\f]+/g, ' ');
+				const previousEndsWithSpace: boolean = previousText === null || / $/.test(previousText.data);
+				if (previousEndsWithSpace && !keepLeadingSpace) {
+					data = data.replace(/^ /, '');
+				}
+				if (!data) {
+					text.remove();
+					continue;
+				}
+				text.data = data;
+				previousText = text;
+				keepLeadingSpace = false;
+			} else if (child.nodeType === Node.ELEMENT_NODE) {
+				const element = child as Element;
+				const tag = element.tagName.toLowerCase();
+
+				if (tag === 'pre' || tag === 'br' || isBlock(element)) {
+					endRun();
+					if (tag !== 'pre') {
+						walk(element);
+					}
+					endRun();
+				} else if (tag === 'img') {
+					// Text after an inline image keeps its leading space
+					previousText = null;
+					keepLeadingSpace = true;
+				} else {
+					walk(element);
+				}
+			} else {
+				// Comments and processing instructions
+				child.remove();
+			}
+		}
+	};
+
+	walk(root);
+	endRun();
+}
+
+/**
+ * Wrap inline content in a delimiter, keeping surrounding whitespace outside
+ */
+function wrapInline(content: string, delimiter: string): string {
+	const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+	if (!match || !match[2]) {
+		return content;
+	}
+	return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+/**
+ * Get the longest run of a character in a string
+ */
+function longestRun(text: string, char: string): number {
+	let longest = 0;
+	let current = 0;
+	for (const c of text) {
+		current = c === char ? current + 1 : 0;
+		longest = Math.max(longest, current);
+	}
+	return longest;
+}
+
+/**
+ * Get text of a <pre> element, keeping line breaks from <br> tags
+ */
+function preText(element: Element): string {
+	const clone = element.cloneNode(true) as Element;
+	clone.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+	return (clone.textContent || '').replace(/\r\n?/g, '\n').replace(/\n$/, '');
+}
+
+/**
+ * Strip blank lines at the start and end of converted block content
+ */
+function trimBlock(content: string): string {
+	return content.replace(/^\s*\n/, '').replace(/\n\s*$/, '').replace(/^ +| +$/g, '');
+}
+
+function convertChildren(node: Node, context: ConvertContext): string {
+	return Array.from(node.childNodes).map(child => convertNode(child, context)).join('');
+}
+
+function convertList(element: Element, context: ConvertContext): string {
+	const ordered = element.tagName.toLowerCase() === 'ol';
+	let number = parseInt(element.getAttribute('start') || '1', 10);
+	if (isNaN(number)) number = 1;
+
+	const items: string[] = [];
+	for (const child of Array.from(element.childNodes)) {
+		if (child.nodeType !== Node.ELEMENT_NODE) {
+			const text = (child.textContent || '').trim();
+			if (text) items.push(`- ${text}`);
+			continue;
+		}
+
+		const childElement = child as Element;
+		const tag = childElement.tagName.toLowerCase();
+		if (tag === 'ul' || tag === 'ol') {
+			// Lists nested directly in lists (invalid but common) belong to the previous item
+			const nested = trimBlock(convertList(childElement, context));
+			items.push(nested.split('\n').map(line => line ? `  ${line}` : line).join('\n'));
+			continue;
+		}
+		if (isHidden(childElement)) continue;
+
+		const marker = ordered ? `${number}. ` : '- ';
+		number++;
+
+		const content = trimBlock(convertChildren(childElement, context)).replace(/\n{2,}/g, '\n');
+		const indent = ' '.repeat(marker.length);
+		const lines = content.split('\n').map((line, index) => {
+			if (index === 0) return marker + line;
+			return line ? indent + line : line;
+		});
+		items.push(lines.join('\n'));
+	}
+
+	return `\n\n${items.join('\n')}\n\n`;
+}
+
+function convertTable(table: HTMLTableElement, context: ConvertContext): string {
+	const rows = Array.from(table.rows);
+
+	let columns = 0;
+	for (const row of rows) {
+		let count = 0;
+		for (const cell of Array.from(row.cells)) {
+			count += Math.max(1, cell.colSpan || 1);
+		}
+		columns = Math.max(columns, count);
+	}
+
+	// Tables used for layout (common in newsletters) are rendered as plain blocks
+	const isLayout = table.getAttribute('role') === 'presentation' ||
+		table.querySelector('table') !== null ||
+		columns <= 1;
+
+	if (isLayout) {
+		const blocks = rows.map(row => Array.from(row.cells)
+			.map(cell => trimBlock(convertChildren(cell, context)))
+			.filter(content => content)
+			.join('\n\n'));
+		return `\n\n${blocks.filter(block => block).join('\n\n')}\n\n`;
+	}
+
+	const toCells = (row: HTMLTableRowElement): string[] => {
+		const cells: string[] = [];
+		for (const cell of Array.from(row.cells)) {
+			const content = trimBlock(convertChildren(cell, context))
+				.replace(/\n+/g, '<br>')
+				.replace(/\|/g, '\\|');
+			cells.push(content);
+			for (let i = 1; i < (cell.colSpan || 1); i++) {
+				cells.push('');
+			}
+		}
+		while (cells.length < columns) {
+			cells.push('');
+		}
+		return cells;
+	};
+
+	// GFM tables need a header row: use the <thead> row, or the first row
+	const headerIndex = Math.max(0, rows.findIndex(row => row.parentElement?.tagName.toLowerCase() === 'thead'));
+	const header = rows[headerIndex];
+	const body = rows.filter((_, index) => index !== headerIndex);
+
+	const lines: string[] = [];
+	lines.push(`| ${toCells(header).join(' | ')} |`);
+	lines.push(`|${' --- |'.repeat(columns)}`);
+	for (const row of body) {
+		lines.push(`| ${toCells(row).join(' | ')} |`);
+	}
+
+	return `\n\n${lines.join('\n')}\n\n`;
+}
+
+function convertNode(node: Node, context: ConvertContext): string {
+	if (node.nodeType === Node.TEXT_NODE) {
+		const data = (node as Text).data;
+		// Brackets would end the link text early
+		return context.inLink ? data.replace(/([[\]])/g, '\\$1') : data;
+	}
+	if (node.nodeType !== Node.ELEMENT_NODE) {
+		return '';
+	}
+
+	const element = node as Element;
+	const tag = element.tagName.toLowerCase();
+
+	if (SKIPPED_ELEMENTS.has(tag) || isHidden(element)) {
+		return '';
+	}
+
+	switch (tag) {
+		case 'h1':
+		case 'h2':
+		case 'h3':
+		case 'h4':
+		case 'h5':
+		case 'h6': {
+			const level = parseInt(tag[1], 10);
+			const content = convertChildren(element, context).replace(/\s*\n\s*/g, ' ').trim();
+			return content ? `\n\n${'#'.repeat(level)} ${content}\n\n` : '';
+		}
+
+		case 'p':
+			return `\n\n${convertChildren(element, context)}\n\n`;
+
+		case 'br':
+			return '\n';
+
+		case 'hr':
+			return '\n\n---\n\n';
+
+		case 'strong':
+		case 'b':
+			return wrapInline(convertChildren(element, context), '**');
+
+		case 'em':
+		case 'i':
+		case 'cite':
+			return wrapInline(convertChildren(element, context), '*');
+
+		case 's':
+		case 'strike':
+		case 'del':
+			return wrapInline(convertChildren(element, context), '~~');
+
+		case 'mark':
+			return wrapInline(convertChildren(element, context), '==');
+
+		case 'code': {
+			const code = element.textContent || '';
+			if (!code.trim()) return code;
+			const fence = '`'.repeat(longestRun(code, '`') + 1);
+			const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+			return `${fence}${padding}${code}${padding}${fence}`;
+		}
+
+		case 'pre': {
+			const code = preText(element);
+			const fence = '`'.repeat(Math.max(3, longestRun(code, '`') + 1));
+			const codeElement = element.querySelector('code');
+			const languageMatch = (codeElement?.getAttribute('class') || element.getAttribute('class') || '')
+				.match(/(?:^|\s)(?:language|lang)-(\S+)/);
+			return `\n\n${fence}${languageMatch ? languageMatch[1] : ''}\n${code}\n${fence}\n\n`;
+		}
+
+		case 'blockquote': {
+			const content = trimBlock(convertChildren(element, context)).replace(/\n{3,}/g, '\n\n');
+			if (!content) return '';
+			const quoted = content.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+			return `\n\n${quoted}\n\n`;
+		}
+
+		case 'ul':
+		case 'ol':
+			return convertList(element, context);
+
+		case 'li':
+			// List items outside of a list
+			return `\n- ${trimBlock(convertChildren(element, context))}\n`;
+
+		case 'table':
+			return convertTable(element as HTMLTableElement, context);
+
+		case 'a': {
+			const content = convertChildren(element, { ...context, inLink: true });
+			const href = sanitizeUrl(element.getAttribute('href') || '');
+			if (!href || context.inLink) {
+				return content;
+			}
+			const text = content.replace(/\s*\n\s*/g, ' ').trim() || href;
+			return `[${text}](${href})`;
+		}
+
+		case 'img': {
+			const alt = (element.getAttribute('alt') || '').replace(/\s+/g, ' ').replace(/([[\]])/g, '\\$1').trim();
+			const src = sanitizeUrl(element.getAttribute('src') || '');
+			return src ? `![${alt}](${src})` : alt;
+		}
+
+		case 'dt':
+			return `\n\n${wrapInline(convertChildren(element, context), '**')}\n`;
+
+		case 'dd':
+			return `\n${convertChildren(element, context)}\n\n`;
+
+		case 'div':
+			return `\n${convertChildren(element, context)}\n`;
+
+		default:
+			if (BLOCK_ELEMENTS.has(tag)) {
+				return `\n\n${convertChildren(element, context)}\n\n`;
+			}
+			return convertChildren(element, context);
+	}
+}
+
+/**
+ * Convert HTML to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	const body = doc.body;
+	if (!body) {
+		return '';
+	}
+
+	collapseWhitespace(body);
+
+	return convertChildren(body, { inLink: false })
+		// Trailing whitespace is never meaningful here; Outlook spacer paragraphs hold a lone &nbsp;
+		.replace(/[ \t\u00a0]+$/gm, '')
+		// Clean up whitespace
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
@@ -0,0 +1,406 @@
+/**
+ * iCalendar (RFC 5545) parser for meeting invitations (text/calendar parts)
+ */
+
+export interface CalendarAttendee {
+	name: string;
+	address: string;
+	// REQ-PARTICIPANT, OPT-PARTICIPANT, CHAIR, ...
+	role: string;
+	// NEEDS-ACTION, ACCEPTED, DECLINED, TENTATIVE, ...
+	status: string;
+}
+
+export interface CalendarEvent {
+	// Calendar METHOD: REQUEST, CANCEL, REPLY, PUBLISH, ...
+	method: string;
+	uid: string;
+	sequence: number;
+	summary: string;
+	description: string;
+	location: string;
+	start: Date | null;
+	end: Date | null;
+	allDay: boolean;
+	// TZID of the start time, "UTC", or "" for floating times
+	timezone: string;
+	// CONFIRMED, TENTATIVE, CANCELLED
+	status: string;
+	organizer: CalendarAttendee | null;
+	attendees: CalendarAttendee[];
+	// Raw RRULE of recurring events
+	recurrence: string;
+}
+
+interface Property {
+	name: string;
+	params: Map<string, string>;
+	value: string;
+}
+
+interface Component {
+	name: string;
+	properties: Property[];
+	children: Component[];
+}
+
+interface Observance {
+	// Local time of the first transition
+	start: DateFields;
+	offsetTo: number;
+	rule: Map<string, string> | null;
+}
+
+interface DateFields {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+}
+
+// Common Windows time zone names used by Outlook, mapped to IANA names
+const WINDOWS_TIMEZONES: Record<string, string> = {
+	'UTC': 'UTC',
+	'GMT Standard Time': 'Europe/London',
+	'W. Europe Standard Time': 'Europe/Berlin',
+	'Romance Standard Time': 'Europe/Paris',
+	'Central Europe Standard Time': 'Europe/Budapest',
+	'Central European Standard Time': 'Europe/Warsaw',
+	'E. Europe Standard Time': 'Europe/Chisinau',
+	'FLE Standard Time': 'Europe/Kiev',
+	'GTB Standard Time': 'Europe/Bucharest',
+	'Russian Standard Time': 'Europe/Moscow',
+	'Eastern Standard Time': 'America/New_York',
+	'Central Standard Time': 'America/Chicago',
+	'Mountain Standard Time': 'America/Denver',
+	'US Mountain Standard Time': 'America/Phoenix',
+	'Pacific Standard Time': 'America/Los_Angeles',
+	'Alaskan Standard Time': 'America/Anchorage',
+	'Hawaiian Standard Time': 'Pacific/Honolulu',
+	'Atlantic Standard Time': 'America/Halifax',
+	'E. South America Standard Time': 'America/Sao_Paulo',
+	'India Standard Time': 'Asia/Kolkata',
+	'China Standard Time': 'Asia/Shanghai',
+	'Tokyo Standard Time': 'Asia/Tokyo',
+	'Korea Standard Time': 'Asia/Seoul',
+	'Singapore Standard Time': 'Asia/Singapore',
+	'AUS Eastern Standard Time': 'Australia/Sydney',
+	'New Zealand Standard Time': 'Pacific/Auckland'
+};
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Unfold content lines and split them into properties
+ */
+function parseLines(text: string): Property[] {
+	const properties: Property[] = [];
+	const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+	for (const line of lines) {
+		if (!line.trim()) continue;
+
+		// Find the colon ending the name and parameters, skipping quoted parameter values
+		let inQuotes = false;
+		let colonIndex = -1;
+		for (let i = 0; i < line.length; i++) {
+			if (line[i] === '"') inQuotes = !inQuotes;
+			else if (line[i] === ':' && !inQuotes) {
+				colonIndex = i;
+				break;
+			}
+		}
+		if (colonIndex === -1) continue;
+
+		const head = line.substring(0, colonIndex);
+		const parts = head.match(/(?:[^;"]+|"[^"]*")+/g) || [];
+		const params = new Map<string, string>();
+		for (const param of parts.slice(1)) {
+			const equals = param.indexOf('=');
+			if (equals > 0) {
+				params.set(param.substring(0, equals).toUpperCase(), param.substring(equals + 1).replace(/^"|"$/g, ''));
+			}
+		}
+
+		properties.push({ name: (parts[0] || '').toUpperCase(), params, value: line.substring(colonIndex + 1) });
+	}
+
+	return properties;
+}
+
+/**
+ * Build the component tree from BEGIN/END properties
+ */
+function buildComponents(properties: Property[]): Component[] {
+	const root: Component = { name: '', properties: [], children: [] };
+	const stack: Component[] = [root];
+
+	for (const property of properties) {
+		const current = stack[stack.length - 1];
+		if (property.name === 'BEGIN') {
+			const component: Component = { name: property.value.trim().toUpperCase(), properties: [], children: [] };
+			current.children.push(component);
+			stack.push(component);
+		} else if (property.name === 'END') {
+			if (stack.length > 1) stack.pop();
+		} else {
+			current.properties.push(property);
+		}
+	}
+
+	return root.children;
+}
+
+/**
+ * Unescape a TEXT value
+ */
+function unescapeText(value: string): string {
+	return value.replace(/\\([nN,;\\])/g, (match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function getProperty(component: Component, name: string): Property | undefined {
+	return component.properties.find(property => property.name === name);
+}
+
+function getText(component: Component, name: string): string {
+	const property = getProperty(component, name);
+	return property ? unescapeText(property.value).trim() : '';
+}
+
+/**
+ * Parse a DATE or DATE-TIME value into its fields
+ */
+function parseDateFields(value: string): (DateFields & { utc: boolean; dateOnly: boolean }) | null {
+	const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+	if (!match) return null;
+	return {
+		year: parseInt(match[1], 10),
+		month: parseInt(match[2], 10),
+		day: parseInt(match[3], 10),
+		hour: match[4] ? parseInt(match[4], 10) : 0,
+		minute: match[5] ? parseInt(match[5], 10) : 0,
+		second: match[6] ? parseInt(match[6], 10) : 0,
+		utc: !!match[7],
+		dateOnly: !match[4]
+	};
+}
+
+function fieldsToUtc(fields: DateFields): number {
+	return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+}
+
+/**
+ * Parse a UTC offset like "+0100" or "-0530" into minutes
+ */
+function parseOffset(value: string): number {
+	const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+	if (!match) return 0;
+	const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+	return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Local time of a yearly transition rule (BYMONTH with BYDAY like "2SU" or "-1SU") in a year
+ */
+function transitionInYear(observance: Observance, year: number): number | null {
+	const rule = observance.rule;
+	if (!rule) {
+		return observance.start.year === year ? fieldsToUtc(observance.start) : null;
+	}
+
+	const month = parseInt(rule.get('BYMONTH') || String(observance.start.month), 10);
+	const byDay = (rule.get('BYDAY') || '').match(/^([+-]?\d+)?([A-Z]{2})$/);
+	let day = observance.start.day;
+
+	if (byDay) {
+		const weekday = WEEKDAYS.indexOf(byDay[2]);
+		const nth = byDay[1] ? parseInt(byDay[1], 10) : 1;
+		if (nth > 0) {
+			const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+			day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+		} else {
+			const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+			const lastWeekday = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+			day = lastDay - ((lastWeekday - weekday + 7) % 7) + (nth + 1) * 7;
+		}
+	}
+
+	return Date.UTC(year, month - 1, day, observance.start.hour, observance.start.minute, observance.start.second);
+}
+
+/**
+ * Get the UTC offset (minutes) of a local time using the VTIMEZONE observances
+ */
+function offsetFromObservances(observances: Observance[], local: DateFields): number | null {
+	const localTime = fieldsToUtc(local);
+	let best: { time: number; offset: number } | null = null;
+
+	for (const observance of observances) {
+		for (const year of [local.year - 1, local.year]) {
+			const transition = transitionInYear(observance, year);
+			if (transition !== null && transition <= localTime && (!best || transition > best.time)) {
+				best = { time: transition, offset: observance.offsetTo };
+			}
+		}
+	}
+
+	// Before the first transition: use the earliest observance
+	if (!best && observances.length > 0) {
+		return observances[0].offsetTo;
+	}
+	return best ? best.offset : null;
+}
+
+/**
+ * Get the UTC offset (minutes) of an IANA time zone at a given instant
+ */
+function offsetFromIntl(timeZone: string, instant: number): number | null {
+	try {
+		const parts = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit'
+		}).formatToParts(new Date(instant));
+		const get = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+		const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+		return Math.round((asUtc - instant) / 60000);
+	} catch (e) {
+		// Unknown time zone name
+		return null;
+	}
+}
+
+/**
+ * Convert a DTSTART/DTEND property to a date
+ */
+function parseDateProperty(
+	property: Property | undefined,
+	timezones: Map<string, Observance[]>
+): { date: Date; allDay: boolean; timezone: string } | null {
+	if (!property) return null;
+	const fields = parseDateFields(property.value);
+	if (!fields) return null;
+
+	if (fields.dateOnly || property.params.get('VALUE') === 'DATE') {
+		// All-day dates have no time zone
+		return { date: new Date(fields.year, fields.month - 1, fields.day), allDay: true, timezone: '' };
+	}
+	if (fields.utc) {
+		return { date: new Date(fieldsToUtc(fields)), allDay: false, timezone: 'UTC' };
+	}
+
+	const tzid = property.params.get('TZID') || '';
+	if (tzid) {
+		const localTime = fieldsToUtc(fields);
+		let offset = timezones.has(tzid) ? offsetFromObservances(timezones.get(tzid) || [], fields) : null;
+
+		if (offset === null) {
+			const ianaName = WINDOWS_TIMEZONES[tzid] || tzid.replace(/^\/[^/]+\/[^/]+\//, '');
+			const guess = offsetFromIntl(ianaName, localTime);
+			// Refine once, so times near a DST change use the offset in effect at that instant
+			offset = guess === null ? null : offsetFromIntl(ianaName, localTime - guess * 60000);
+		}
+
+		if (offset !== null) {
+			return { date: new Date(localTime - offset * 60000), allDay: false, timezone: tzid };
+		}
+	}
+
+	// Floating time: same wall clock time everywhere
+	return {
+		date: new Date(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second),
+		allDay: false,
+		timezone: tzid
+	};
+}
+
+/**
+ * Parse an ORGANIZER or ATTENDEE property
+ */
+function parseAttendee(property: Property): CalendarAttendee {
+	return {
+		name: (property.params.get('CN') || '').trim(),
+		address: property.value.replace(/^mailto:/i, '').trim(),
+		role: (property.params.get('ROLE') || '').toUpperCase(),
+		status: (property.params.get('PARTSTAT') || '').toUpperCase()
+	};
+}
+
+/**
+ * Parse an ISO 8601 duration like "PT1H30M" or "P1D" into milliseconds
+ */
+function parseDuration(value: string): number {
+	const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+	if (!match) return 0;
+	const [, sign, weeks, days, hours, minutes, seconds] = match;
+	const total = ((parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * 24 * 3600 +
+		parseInt(hours || '0', 10) * 3600 + parseInt(minutes || '0', 10) * 60 + parseInt(seconds || '0', 10)) * 1000;
+	return sign === '-' ? -total : total;
+}
+
+/**
+ * Parse the events of an iCalendar object
+ */
+export function parseCalendar(text: string): CalendarEvent[] {
+	const events: CalendarEvent[] = [];
+
+	for (const calendar of buildComponents(parseLines(text))) {
+		if (calendar.name !== 'VCALENDAR') continue;
+		const method = getText(calendar, 'METHOD').toUpperCase();
+
+		// Time zone definitions sent along with the events
+		const timezones = new Map<string, Observance[]>();
+		for (const timezone of calendar.children.filter(child => child.name === 'VTIMEZONE')) {
+			const observances: Observance[] = [];
+			for (const observance of timezone.children) {
+				const start = parseDateFields(getProperty(observance, 'DTSTART')?.value || '');
+				const offsetTo = getProperty(observance, 'TZOFFSETTO');
+				if (!start || !offsetTo) continue;
+
+				const ruleValue = getProperty(observance, 'RRULE')?.value;
+				const rule = ruleValue ? new Map(ruleValue.split(';').map(part => {
+					const [key, value] = part.split('=');
+					return [key.toUpperCase(), (value || '').toUpperCase()] as [string, string];
+				})) : null;
+				observances.push({ start, offsetTo: parseOffset(offsetTo.value), rule });
+			}
+			timezones.set(getText(timezone, 'TZID'), observances);
+		}
+
+		for (const component of calendar.children.filter(child => child.name === 'VEVENT')) {
+			const start = parseDateProperty(getProperty(component, 'DTSTART'), timezones);
+			let end = parseDateProperty(getProperty(component, 'DTEND'), timezones);
+			const duration = getProperty(component, 'DURATION');
+			if (!end && start && duration) {
+				end = { ...start, date: new Date(start.date.getTime() + parseDuration(duration.value)) };
+			}
+
+			const organizer = getProperty(component, 'ORGANIZER');
+			events.push({
+				method,
+				uid: getText(component, 'UID'),
+				sequence: parseInt(getText(component, 'SEQUENCE') || '0', 10) || 0,
+				summary: getText(component, 'SUMMARY'),
+				description: getText(component, 'DESCRIPTION'),
+				location: getText(component, 'LOCATION'),
+				start: start ? start.date : null,
+				end: end ? end.date : null,
+				allDay: start ? start.allDay : false,
+				timezone: start ? start.timezone : '',
+				status: getText(component, 'STATUS').toUpperCase() || (method === 'CANCEL' ? 'CANCELLED' : ''),
+				organizer: organizer ? parseAttendee(organizer) : null,
+				attendees: component.properties.filter(property => property.name === 'ATTENDEE').map(parseAttendee),
+				recurrence: getProperty(component, 'RRULE')?.value || ''
+			});
+		}
+	}
+
+	return events;
+}
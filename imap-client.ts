@@ -0,0 +1,375 @@
+/**
+ * Minimal IMAP4rev1 client over node sockets
+ * Covers what the mailbox sync needs: login, folder list, UID search and fetching
+ * raw messages. Folders are opened read-only, so nothing is marked as read.
+ */
+
+import { Socket, connect as connectTcp } from 'net';
+import { connect as connectTls } from 'tls';
+import type { ImapSecurity } from './settings';
+
+export interface ImapConnectionOptions {
+	host: string;
+	port: number;
+	security: ImapSecurity;
+	user: string;
+	password: string;
+}
+
+export interface ImapFolderStatus {
+	// Changes when the server renumbers the folder, invalidating known UIDs
+	uidValidity: number;
+	uidNext: number;
+	exists: number;
+}
+
+/**
+ * A server response line, with the literals ({n} byte strings) it contains
+ */
+interface ImapResponse {
+	text: string;
+	literals: Buffer[];
+}
+
+interface PendingCommand {
+	tag: string;
+	untagged: ImapResponse[];
+	resolve: (untagged: ImapResponse[]) => void;
+	reject: (error: Error) => void;
+}
+
+// Milliseconds without any data from the server before giving up
+const SOCKET_TIMEOUT = 60000;
+
+export class ImapClient {
+	private options: ImapConnectionOptions;
+	private socket: Socket | null = null;
+	private buffer: Buffer = Buffer.alloc(0);
+	// Response being read, and the bytes of the literal it is waiting for
+	private response: ImapResponse = { text: '', literals: [] };
+	private literalRemaining = 0;
+	private literalChunks: Buffer[] = [];
+	private greeting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+	private pending: PendingCommand | null = null;
+	private continuation: (() => void) | null = null;
+	private tagCounter = 0;
+
+	constructor(options: ImapConnectionOptions) {
+		this.options = options;
+	}
+
+	/**
+	 * Connect to the server, switch to TLS if configured and log in
+	 */
+	async connect(): Promise<void> {
+		const { host, port, security } = this.options;
+		await new Promise<void>((resolve, reject) => {
+			this.greeting = { resolve, reject };
+			this.attach(security === 'tls'
+				? connectTls({ host, port, servername: host })
+				: connectTcp({ host, port }));
+		});
+
+		if (security === 'starttls') {
+			await this.command('STARTTLS');
+			await this.upgradeToTls();
+		}
+
+		await this.command('LOGIN', quote(this.options.user), quote(this.options.password));
+	}
+
+	/**
+	 * List the names of the folders that can be opened
+	 */
+	async listFolders(): Promise<string[]> {
+		const folders: string[] = [];
+		for (const response of await this.command('LIST', '""', '"*"')) {
+			const match = response.text.match(/^\* LIST \(([^)]*)\) (?:"(?:[^"\\]|\\.)*"|NIL) (.*)$/i);
+			if (!match || /\\(Noselect|NonExistent)\b/i.test(match[1])) continue;
+			const name = /^\{\d+\}$/.test(match[2]) && response.literals.length > 0
+				? response.literals[0].toString('utf8')
+				: unquote(match[2]);
+			folders.push(decodeMailboxName(name));
+		}
+		return folders;
+	}
+
+	/**
+	 * Open a folder read-only
+	 */
+	async openFolder(name: string): Promise<ImapFolderStatus> {
+		const status: ImapFolderStatus = { uidValidity: 0, uidNext: 0, exists: 0 };
+		for (const response of await this.command('EXAMINE', quote(encodeMailboxName(name)))) {
+			const uidValidity = response.text.match(/\[UIDVALIDITY (\d+)\]/i);
+			const uidNext = response.text.match(/\[UIDNEXT (\d+)\]/i);
+			const exists = response.text.match(/^\* (\d+) EXISTS/i);
+			if (uidValidity) status.uidValidity = parseInt(uidValidity[1], 10);
+			if (uidNext) status.uidNext = parseInt(uidNext[1], 10);
+			if (exists) status.exists = parseInt(exists[1], 10);
+		}
+		return status;
+	}
+
+	/**
+	 * Get the UIDs from a UID on of the open folder, in ascending order
+	 */
+	async searchUids(fromUid: number): Promise<number[]> {
+		const uids: number[] = [];
+		for (const response of await this.command('UID SEARCH', `UID ${fromUid}:*`)) {
+			const match = response.text.match(/^\* SEARCH(.*)$/i);
+			if (!match) continue;
+			for (const value of match[1].trim().split(/\s+/)) {
+				const uid = parseInt(value, 10);
+				// "n:*" also matches the highest UID when it is below n
+				if (uid >= fromUid) {
+					uids.push(uid);
+				}
+			}
+		}
+		return uids.sort((a, b) => a - b);
+	}
+
+	/**
+	 * Fetch the raw source of a message of the open folder, without marking it as read
+	 */
+	async fetchMessage(uid: number): Promise<Buffer | null> {
+		for (const response of await this.command('UID FETCH', String(uid), '(BODY.PEEK[])')) {
+			if (/^\* \d+ FETCH/i.test(response.text) && response.literals.length > 0) {
+				return response.literals[response.literals.length - 1];
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Log out and close the connection
+	 */
+	async logout(): Promise<void> {
+		try {
+			await this.command('LOGOUT');
+		} finally {
+			this.close();
+		}
+	}
+
+	/**
+	 * Close the connection without logging out
+	 */
+	close(): void {
+		if (this.socket) {
+			this.socket.removeAllListeners();
+			this.socket.on('error', () => { /* closing anyway */ });
+			this.socket.destroy();
+			this.socket = null;
+		}
+	}
+
+	/**
+	 * Start reading responses from a socket
+	 */
+	private attach(socket: Socket): void {
+		this.socket = socket;
+		socket.setTimeout(SOCKET_TIMEOUT);
+		socket.on('timeout', () => socket.destroy(new Error('Connection timed out')));
+		socket.on('data', (chunk: Buffer) => this.receive(chunk));
+		socket.on('error', (error: Error) => this.fail(error));
+		socket.on('close', () => this.fail(new Error('Connection closed by the server')));
+	}
+
+	/**
+	 * Continue the connection over TLS after STARTTLS
+	 */
+	private upgradeToTls(): Promise<void> {
+		const plain = this.socket;
+		if (!plain) {
+			return Promise.reject(new Error('Not connected'));
+		}
+		plain.removeAllListeners();
+		return new Promise((resolve, reject) => {
+			const secure = connectTls({ socket: plain, servername: this.options.host }, () => resolve());
+			secure.once('error', reject);
+			this.attach(secure);
+		});
+	}
+
+	/**
+	 * Reject whatever is waiting for the server
+	 */
+	private fail(error: Error): void {
+		this.socket = null;
+		if (this.greeting) {
+			this.greeting.reject(error);
+			this.greeting = null;
+		}
+		if (this.pending) {
+			this.pending.reject(error);
+			this.pending = null;
+		}
+	}
+
+	/**
+	 * Send a tagged command; byte arguments are sent as literals
+	 */
+	private command(...parts: (string | Buffer)[]): Promise<ImapResponse[]> {
+		const socket = this.socket;
+		if (!socket) {
+			return Promise.reject(new Error('Not connected'));
+		}
+		const tag = `A${++this.tagCounter}`;
+		return new Promise((resolve, reject) => {
+			this.pending = { tag, untagged: [], resolve, reject };
+			this.send(socket, tag, parts).catch(reject);
+		});
+	}
+
+	/**
+	 * Write a command, waiting for the server to accept each literal before sending it
+	 */
+	private async send(socket: Socket, tag: string, parts: (string | Buffer)[]): Promise<void> {
+		let line = tag;
+		for (const part of parts) {
+			if (typeof part === 'string') {
+				line += ` ${part}`;
+				continue;
+			}
+			await new Promise<void>(resolve => {
+				this.continuation = resolve;
+				socket.write(`${line} {${part.length}}\r\n`);
+			});
+			socket.write(part);
+			line = '';
+		}
+		socket.write(`${line}\r\n`);
+	}
+
+	/**
+	 * Split received data into responses, reading literals as raw bytes
+	 */
+	private receive(chunk: Buffer): void {
+		this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+		while (this.buffer.length > 0) {
+			if (this.literalRemaining > 0) {
+				const bytes = this.buffer.subarray(0, this.literalRemaining);
+				this.literalChunks.push(bytes);
+				this.literalRemaining -= bytes.length;
+				this.buffer = this.buffer.subarray(bytes.length);
+				if (this.literalRemaining === 0) {
+					this.response.literals.push(Buffer.concat(this.literalChunks));
+					this.literalChunks = [];
+				}
+				continue;
+			}
+
+			const end = this.buffer.indexOf('\r\n');
+			if (end === -1) break;
+			const text = this.buffer.subarray(0, end).toString('utf8');
+			this.buffer = this.buffer.subarray(end + 2);
+			this.response.text += text;
+
+			// The response goes on after the literal
+			const literal = text.match(/\{(\d+)\+?\}$/);
+			if (literal) {
+				this.literalRemaining = parseInt(literal[1], 10);
+				if (this.literalRemaining === 0) {
+					this.response.literals.push(Buffer.alloc(0));
+				}
+				continue;
+			}
+
+			const response = this.response;
+			this.response = { text: '', literals: [] };
+			this.handle(response);
+		}
+	}
+
+	/**
+	 * Handle a complete response: the greeting, a continuation request, untagged data or a command result
+	 */
+	private handle(response: ImapResponse): void {
+		const text = response.text;
+
+		if (this.greeting) {
+			const greeting = this.greeting;
+			this.greeting = null;
+			if (/^\* (OK|PREAUTH)\b/i.test(text)) {
+				greeting.resolve();
+			} else {
+				greeting.reject(new Error(`Server refused the connection: ${text}`));
+			}
+			return;
+		}
+
+		if (text.startsWith('+')) {
+			const continuation = this.continuation;
+			this.continuation = null;
+			if (continuation) continuation();
+			return;
+		}
+
+		if (text.startsWith('* ')) {
+			if (this.pending) {
+				this.pending.untagged.push(response);
+			}
+			return;
+		}
+
+		const pending = this.pending;
+		if (pending && text.startsWith(`${pending.tag} `)) {
+			this.pending = null;
+			const status = text.substring(pending.tag.length + 1);
+			if (/^OK\b/i.test(status)) {
+				pending.resolve(pending.untagged);
+			} else {
+				pending.reject(new Error(status.replace(/^(NO|BAD)\s*/i, '') || status));
+			}
+		}
+	}
+}
+
+/**
+ * Quote a command argument, or send it as a literal when it cannot be quoted
+ */
+function quote(value: string): string | Buffer {
+	if (/^[\x20-\x7E]*$/.test(value)) {
+		return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+	}
+	return Buffer.from(value, 'utf8');
+}
+
+/**
+ * Read a quoted string or atom of a response
+ */
+function unquote(value: string): string {
+	const match = value.match(/^"((?:[^"\\]|\\.)*)"$/);
+	return match ? match[1].replace(/\\(.)/g, '$1') : value;
+}
+
+/**
+ * Decode a folder name from IMAP's modified UTF-7 ("&AOk-t&AOk-" is "été")
+ */
+export function decodeMailboxName(name: string): string {
+	return name.replace(/&([^-]*)-/g, (_, encoded: string) => {
+		if (!encoded) return '&';
+		const bytes = Buffer.from(encoded.replace(/,/g, '/'), 'base64');
+		let text = '';
+		for (let i = 0; i + 1 < bytes.length; i += 2) {
+			text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+		}
+		return text;
+	});
+}
+
+/**
+ * Encode a folder name in IMAP's modified UTF-7
+ */
+export function encodeMailboxName(name: string): string {
+	return name.replace(/&|[^\x20-\x7E]+/g, (run: string) => {
+		if (run === '&') return '&-';
+		const bytes = Buffer.alloc(run.length * 2);
+		for (let i = 0; i < run.length; i++) {
+			bytes.writeUInt16BE(run.charCodeAt(i), i * 2);
+		}
+		return `&${bytes.toString('base64').replace(/=+$/, '').replace(/\//g, ',')}-`;
+	});
+}
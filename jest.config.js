@@ -0,0 +1,9 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+	testEnvironment: 'jsdom',
+	testMatch: ['<rootDir>/tests/**/*.test.ts'],
+	transform: {
+		// The plugin bundle is ESM; Jest runs CommonJS
+		'^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'CommonJS', esModuleInterop: true } }]
+	}
+};
@@ -0,0 +1,100 @@
+/**
+ * Maildir reader: folders with cur/, new/ and tmp/ directories holding one message per file,
+ * as kept by offlineimap, mbsync or getmail
+ * Files are only read, never moved or renamed, so the mail client stays in charge of them
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative, sep } from 'path';
+
+// Depth below the Maildir root searched for folders (Maildir++ ".Sent" or nested "Archive/2024")
+const MAX_FOLDER_DEPTH = 5;
+
+export interface MaildirMessage {
+	// Absolute path of the message file
+	path: string;
+	// Folder and unique name, unchanged when the message moves from new/ to cur/ or its flags change
+	key: string;
+}
+
+/**
+ * Get the unique part of a message file name, without the info suffix
+ * "1700000000.M1P2.host:2,RS" -> "1700000000.M1P2.host" ("!" or ";" replace ":" on some systems)
+ */
+export function getMaildirMessageKey(fileName: string): string {
+	return fileName.replace(/[:!;]2,[A-Za-z]*$/, '');
+}
+
+/**
+ * Check if a path is a directory
+ */
+async function isDirectory(path: string): Promise<boolean> {
+	try {
+		return (await fs.stat(path)).isDirectory();
+	} catch (error) {
+		return false;
+	}
+}
+
+/**
+ * Find the Maildir folders below a root: directories with a cur/ or new/ directory
+ */
+export async function findMaildirFolders(root: string): Promise<string[]> {
+	const folders: string[] = [];
+
+	const visit = async (dir: string, depth: number) => {
+		if (await isDirectory(join(dir, 'cur')) || await isDirectory(join(dir, 'new'))) {
+			folders.push(dir);
+		}
+		if (depth >= MAX_FOLDER_DEPTH) return;
+
+		let entries: string[];
+		try {
+			entries = await fs.readdir(dir);
+		} catch (error) {
+			return;
+		}
+		for (const entry of entries.sort()) {
+			if (entry === 'cur' || entry === 'new' || entry === 'tmp') continue;
+			const path = join(dir, entry);
+			if (await isDirectory(path)) {
+				await visit(path, depth + 1);
+			}
+		}
+	};
+
+	await visit(root, 0);
+	return folders;
+}
+
+/**
+ * List the messages of every folder of a Maildir, oldest first
+ * (unique names start with the delivery time); tmp/ holds deliveries still being written
+ */
+export async function listMaildirMessages(root: string): Promise<MaildirMessage[]> {
+	const messages: MaildirMessage[] = [];
+	for (const folder of await findMaildirFolders(root)) {
+		const folderName = relative(root, folder).split(sep).join('/');
+		for (const subfolder of ['new', 'cur']) {
+			let files: string[];
+			try {
+				files = await fs.readdir(join(folder, subfolder));
+			} catch (error) {
+				continue;
+			}
+			for (const file of files) {
+				if (file.startsWith('.')) continue;
+				const key = getMaildirMessageKey(file);
+				messages.push({
+					path: join(folder, subfolder, file),
+					key: folderName ? `${folderName}/${key}` : key
+				});
+			}
+		}
+	}
+	return messages.sort((a, b) => {
+		const aName = a.key.substring(a.key.lastIndexOf('/') + 1);
+		const bName = b.key.substring(b.key.lastIndexOf('/') + 1);
+		return aName.localeCompare(bName, undefined, { numeric: true });
+	});
+}
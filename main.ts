@@ -1,57 +1,213 @@
 import {
+	Component,
+	FileSystemAdapter,
+	MarkdownRenderer,
 	Plugin,
 	TFile,
 	TAbstractFile,
 	Notice,
-	normalizePath
+	normalizePath,
+	parseYaml,
+	stringifyYaml
 } from 'obsidian';
 import {
+	Attachment,
+	EmlStreamParser,
 	parseEml,
 	ParsedEmail,
+	EmailAddress,
+	formatEmailAddress,
 	formatEmailAddresses,
-	htmlToMarkdown
+	getThreadId,
+	normalizeSubject
 } from './eml-parser';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { homedir } from 'os';
+import { parseAddressList } from './address-parser';
+import { AttachmentFilter, getSkipReason, parseFilterList } from './attachment-filter';
+import { AttachmentIndex, hashContent } from './attachment-index';
+import { EMAIL_VIEW_TYPE, EmailView } from './email-view';
+import { DuplicateReportModal } from './duplicate-report-modal';
+import { OutgoingAttachment, buildEml, createMessageId, getContentTypeForFile } from './eml-writer';
+import { htmlToMarkdown } from './html-to-markdown';
+import { CalendarAttendee, CalendarEvent } from './ics';
+import { SplitBody, splitReplyHtml, splitReplyText } from './reply-parser';
+import { listMaildirMessages } from './maildir';
+import { MboxSplitter } from './mbox-parser';
+import { MessageIndex } from './message-index';
+import { parseMsg } from './msg-parser';
+import { ImapClient } from './imap-client';
+import { ConversionPreviewModal } from './preview-modal';
+import { ReconversionModal } from './reconversion-modal';
+import { applyRules, getDomain, parseTags } from './rules';
+import { SyncState } from './sync-state';
+import {
+	DEFAULT_TEMPLATE,
+	TemplateContext,
+	USER_NOTES_MARKER,
+	extractMessageBody,
+	renderTemplate
+} from './template';
 import {
 	EmlToMarkdownSettings,
 	DEFAULT_SETTINGS,
 	EmlToMarkdownSettingTab
 } from './settings';
 
-// Maximum attachment size in bytes (500 MB)
-const MAX_ATTACHMENT_SIZE = 500 * 1024 * 1024;
+// File extensions the plugin converts
+const EMAIL_EXTENSIONS = ['eml', 'msg', 'mbox'];
+
+// Bytes read from disk at a time when streaming email files
+const FILE_CHUNK_SIZE = 64 * 1024;
+
+// Frontmatter block at the start of a note
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+// Every property buildFrontmatter can write; other properties of email notes were added by the user
+const GENERATED_FRONTMATTER_KEYS = [
+	'subject', 'date', 'from', 'to', 'cc', 'bcc', 'reply_to', 'participants', 'contacts', 'message_id', 'in_reply_to',
+	'thread_id', 'list_id', 'size', 'has_attachments', 'attachments', 'event_title', 'event_start', 'event_end',
+	'event_location', 'event_method', 'tags', 'type'
+];
+
+/**
+ * A note created during this session, kept until the metadata cache catches up
+ */
+interface RecentEmailNote {
+	file: TFile;
+	messageId: string;
+	threadId: string;
+	date: Date | null;
+	from: string;
+}
+
+/**
+ * Choices made in the conversion preview
+ */
+export interface ConversionOptions {
+	// Target note path, instead of the one from the name pattern and the rules
+	notePath?: string;
+	tags?: string[];
+	// Indexes of attachments not to save
+	excludedAttachments?: number[];
+}
+
+/**
+ * An email note regenerated from its source file, not written yet
+ */
+export interface Reconversion {
+	note: TFile;
+	source: TFile | null;
+	oldContent: string;
+	// Null if the source could not be found or read
+	content: string | null;
+	error?: string;
+}
+
+/**
+ * Options of a single note
+ */
+interface NoteOptions {
+	tags?: string[];
+	excludedAttachments?: Set<Attachment>;
+}
 
 export default class EmlToMarkdownPlugin extends Plugin {
 	settings: EmlToMarkdownSettings;
 	// Track files currently being processed to prevent loops
 	private processingFiles: Set<string> = new Set();
+	// Notes created this session, so batch imports can thread messages before they are indexed
+	private recentEmailNotes: Map<string, RecentEmailNote> = new Map();
+	private recentThreadIndexes: Map<string, TFile> = new Map();
+	private recentContacts: Map<string, TFile> = new Map();
+	private recentEventNotes: Map<string, TFile> = new Map();
+	// Saved attachments by content hash
+	private attachmentIndex: AttachmentIndex;
+	// Converted email notes by message id
+	private messageIndex: MessageIndex = new MessageIndex();
+	// Last UIDs imported from each IMAP folder
+	private syncState: SyncState;
+	private syncing = false;
+	private scanningMaildir = false;
+	private maildirInterval: number | null = null;
 
 	async onload() {
 		await this.loadSettings();
 
-		// Register file watcher for .eml files
+		this.attachmentIndex = new AttachmentIndex(this.app.vault.adapter, `${this.manifest.dir}/attachment-index.json`);
+		await this.attachmentIndex.load();
+
+		this.syncState = new SyncState(this.app.vault.adapter, `${this.manifest.dir}/sync-state.json`);
+		await this.syncState.load();
+
+		// Register file watcher for .eml, .msg and .mbox files
+		// (once the vault is loaded, so existing files do not trigger it on startup)
+		this.app.workspace.onLayoutReady(() => {
+			// Index the message ids of existing email notes and follow later changes
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				this.messageIndex.set(file.path, this.getNoteMessageId(file));
+			}
+			this.registerEvent(
+				this.app.metadataCache.on('changed', (file: TFile) => {
+					this.messageIndex.set(file.path, this.getNoteMessageId(file));
+				})
+			);
+			this.registerEvent(
+				this.app.vault.on('delete', (file: TAbstractFile) => {
+					this.messageIndex.delete(file.path);
+				})
+			);
+
+			this.registerEvent(
+				this.app.vault.on('create', (file: TAbstractFile) => {
+					if (this.settings.autoConvert && file instanceof TFile && EMAIL_EXTENSIONS.includes(file.extension)) {
+						// Skip if already processing or in attachments folder
+						if (this.processingFiles.has(file.path) || this.isInAttachmentsFolder(file)) {
+							return;
+						}
+						// Small delay to ensure file is fully written
+						setTimeout(() => this.convertFile(file), 500);
+					}
+				})
+			);
+
+			// Messages outside the vault: scan the Maildir now and then on its timer
+			if (this.settings.maildirPath && this.settings.maildirScanInterval > 0) {
+				this.scanMaildir(false);
+			}
+			this.scheduleMaildirScan();
+		});
+
+		// Watch for renames - but only if renamed TO an email file (not moved within vault)
 		this.registerEvent(
-			this.app.vault.on('create', (file: TAbstractFile) => {
-				if (this.settings.autoConvert && file instanceof TFile && file.extension === 'eml') {
-					// Skip if already processing or in attachments folder
-					if (this.processingFiles.has(file.path) || this.isInAttachmentsFolder(file)) {
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+				if (this.settings.autoConvert && file instanceof TFile && EMAIL_EXTENSIONS.includes(file.extension)) {
+					// Skip if: already processing, in attachments folder, or had the same extension (just moved)
+					const wasSameType = oldPath.toLowerCase().endsWith(`.${file.extension}`);
+					if (this.processingFiles.has(file.path) || this.isInAttachmentsFolder(file) || wasSameType) {
 						return;
 					}
-					// Small delay to ensure file is fully written
-					setTimeout(() => this.convertEmlFile(file), 500);
+					setTimeout(() => this.convertFile(file), 500);
 				}
 			})
 		);
 
-		// Watch for renames - but only if renamed TO .eml (not moved within vault)
+		// Open email files in a read-only viewer
+		this.registerView(EMAIL_VIEW_TYPE, (leaf) => new EmailView(leaf, this));
+		try {
+			this.registerExtensions(['eml', 'msg'], EMAIL_VIEW_TYPE);
+		} catch (error) {
+			// Another plugin already handles these extensions
+			console.error('Could not register the email viewer:', error);
+		}
+
+		// Keep the attachment and message indexes pointing at moved files
 		this.registerEvent(
 			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
-				if (this.settings.autoConvert && file instanceof TFile && file.extension === 'eml') {
-					// Skip if: already processing, in attachments folder, or was already .eml (just moved)
-					const wasEml = oldPath.toLowerCase().endsWith('.eml');
-					if (this.processingFiles.has(file.path) || this.isInAttachmentsFolder(file) || wasEml) {
-						return;
-					}
-					setTimeout(() => this.convertEmlFile(file), 500);
+				if (file instanceof TFile) {
+					this.attachmentIndex.rename(oldPath, file.path);
+					this.messageIndex.rename(oldPath, file.path);
 				}
 			})
 		);
@@ -62,9 +218,13 @@ export default class EmlToMarkdownPlugin extends Plugin {
 			name: 'Convert EML file to Markdown',
 			checkCallback: (checking: boolean) => {
 				const activeFile = this.app.workspace.getActiveFile();
-				if (activeFile && activeFile.extension === 'eml') {
+				if (activeFile && EMAIL_EXTENSIONS.includes(activeFile.extension)) {
 					if (!checking) {
-						this.convertEmlFile(activeFile);
+						if (this.settings.previewManualConversion && activeFile.extension !== 'mbox') {
+							this.openConversionPreview(activeFile);
+						} else {
+							this.convertFile(activeFile);
+						}
 					}
 					return true;
 				}
@@ -72,24 +232,24 @@ export default class EmlToMarkdownPlugin extends Plugin {
 			}
 		});
 
-		// Add command to convert all EML files in vault
+		// Add command to convert all email files in vault
 		this.addCommand({
 			id: 'convert-all-eml-to-markdown',
 			name: 'Convert all EML files in vault to Markdown',
 			callback: async () => {
-				const emlFiles = this.app.vault.getFiles().filter(f => f.extension === 'eml');
+				const emlFiles = this.app.vault.getFiles().filter(f => EMAIL_EXTENSIONS.includes(f.extension));
 				if (emlFiles.length === 0) {
-					new Notice('No .eml files found in vault');
+					new Notice('No .eml, .msg or .mbox files found in vault');
 					return;
 				}
 
-				new Notice(`Converting ${emlFiles.length} EML file(s)...`);
+				new Notice(`Converting ${emlFiles.length} email file(s)...`);
 				let converted = 0;
 				let failed = 0;
 
 				for (const file of emlFiles) {
 					try {
-						await this.convertEmlFile(file);
+						await this.convertFile(file);
 						converted++;
 					} catch (e) {
 						failed++;
@@ -97,7 +257,80 @@ export default class EmlToMarkdownPlugin extends Plugin {
 					}
 				}
 
-				new Notice(`Converted ${converted} EML file(s). ${failed > 0 ? `${failed} failed.` : ''}`);
+				new Notice(`Converted ${converted} email file(s). ${failed > 0 ? `${failed} failed.` : ''}`);
+			}
+		});
+
+		// Add commands to regenerate notes from their source email files
+		this.addCommand({
+			id: 'reconvert-email-note',
+			name: 'Re-convert current email note',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && this.isEmailNote(activeFile)) {
+					if (!checking) {
+						this.openReconversion([activeFile]);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'reconvert-all-email-notes',
+			name: 'Re-convert all email notes',
+			callback: () => {
+				const notes = this.app.vault.getMarkdownFiles().filter(file => this.isEmailNote(file));
+				if (notes.length === 0) {
+					new Notice('No email notes found in vault');
+					return;
+				}
+				this.openReconversion(notes);
+			}
+		});
+
+		// Add command to list messages converted to more than one note
+		this.addCommand({
+			id: 'find-duplicate-email-notes',
+			name: 'Find duplicate email notes',
+			callback: () => {
+				const duplicates = this.messageIndex.getDuplicates();
+				if (duplicates.length === 0) {
+					new Notice('No duplicate email notes found');
+					return;
+				}
+				new DuplicateReportModal(this.app, duplicates).open();
+			}
+		});
+
+		// Add command to import new messages from the IMAP server
+		this.addCommand({
+			id: 'sync-mailbox',
+			name: 'Sync mailbox',
+			callback: () => this.syncMailbox()
+		});
+
+		// Add command to import messages added to the Maildir since the last scan
+		this.addCommand({
+			id: 'scan-maildir',
+			name: 'Import new messages from Maildir',
+			callback: () => this.scanMaildir(true)
+		});
+
+		// Add command to write a note back to an email file
+		this.addCommand({
+			id: 'export-note-to-eml',
+			name: 'Export current note as EML file',
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.extension === 'md') {
+					if (!checking) {
+						this.exportNoteToEml(activeFile);
+					}
+					return true;
+				}
+				return false;
 			}
 		});
 
@@ -106,7 +339,8 @@ export default class EmlToMarkdownPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Copy defaults so settings edits (e.g. adding rules) never change DEFAULT_SETTINGS
+		this.settings = Object.assign({}, JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), await this.loadData());
 	}
 
 	async saveSettings() {
@@ -117,6 +351,13 @@ export default class EmlToMarkdownPlugin extends Plugin {
 	 * Get the attachment folder path based on Obsidian settings
 	 */
 	getAttachmentFolder(sourceFile: TFile): string {
+		return this.getAttachmentFolderIn(sourceFile.parent ? sourceFile.parent.path : null);
+	}
+
+	/**
+	 * Get the attachment folder for files in a folder, e.g. notes of synced messages that have no email file
+	 */
+	getAttachmentFolderIn(folderPath: string | null): string {
 		// @ts-ignore - accessing internal API for attachment folder
 		const attachmentFolderPath = this.app.vault.getConfig('attachmentFolderPath');
 
@@ -127,8 +368,9 @@ export default class EmlToMarkdownPlugin extends Plugin {
 
 		if (attachmentFolderPath.startsWith('./')) {
 			// Relative to current file
-			const folder = sourceFile.parent;
-			return folder ? normalizePath(folder.path + '/' + attachmentFolderPath.substring(2)) : attachmentFolderPath.substring(2);
+			return folderPath !== null
+				? normalizePath(folderPath + '/' + attachmentFolderPath.substring(2))
+				: attachmentFolderPath.substring(2);
 		}
 
 		// Absolute path in vault
@@ -186,10 +428,21 @@ export default class EmlToMarkdownPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Convert an email file to Markdown based on its extension
+	 */
+	async convertFile(file: TFile): Promise<void> {
+		if (file.extension === 'mbox') {
+			await this.convertMboxFile(file);
+		} else {
+			await this.convertEmlFile(file);
+		}
+	}
+
 	/**
 	 * Convert an EML file to Markdown
 	 */
-	async convertEmlFile(file: TFile): Promise<void> {
+	async convertEmlFile(file: TFile, options: ConversionOptions = {}): Promise<void> {
 		// Prevent concurrent processing of the same file
 		if (this.processingFiles.has(file.path)) {
 			return;
@@ -199,42 +452,60 @@ export default class EmlToMarkdownPlugin extends Plugin {
 		this.processingFiles.add(file.path);
 
 		try {
-			// Check if markdown file already exists
-			const mdPath = file.path.replace(/\.eml$/i, '.md');
-			const existingMd = this.app.vault.getAbstractFileByPath(mdPath);
-			if (existingMd) {
-				// Markdown already exists, skip
-				return;
-			}
-
 			// Skip files already in attachments folder
 			if (this.isInAttachmentsFolder(file)) {
 				return;
 			}
 
-			// Read EML file using Vault API
-			const emlContent = await this.app.vault.read(file);
+			// Read and parse EML or MSG file
+			const email = await this.readEmailFile(file);
 
-			// Parse EML
-			const email = parseEml(emlContent);
+			// The same message converted before, e.g. from another recipient's export
+			const duplicate = this.findDuplicateNote(email);
+			if (duplicate) {
+				await this.handleDuplicate(file, email, duplicate);
+				return;
+			}
+
+			// Check if the email was already converted
+			const mdPath = options.notePath || await this.resolveNotePath(email, file.parent?.path || '', file.basename);
+			if (!mdPath) {
+				// Markdown already exists, skip
+				return;
+			}
+			if (options.notePath) {
+				if (this.app.vault.getAbstractFileByPath(options.notePath)) {
+					throw new Error(`A note already exists at ${options.notePath}`);
+				}
+			}
+			const noteName = mdPath.substring(mdPath.lastIndexOf('/') + 1).replace(/\.md$/i, '');
 
 			// Get attachment folder (for both attachments and moved EML)
 			const attachmentFolder = this.getAttachmentFolder(file);
 
-			// Save attachments
-			const attachmentLinks = await this.saveAttachments(email, file, attachmentFolder);
+			// Fail on a missing template note before the source file is moved out of the way
+			await this.getTemplate();
 
 			// Handle EML file based on settings
+			const sourcePath = file.path;
 			let movedEmlName: string | null = null;
 			if (this.settings.emlHandling === 'move-to-attachments') {
 				movedEmlName = await this.moveEmlToAttachments(file, attachmentFolder);
 			}
 
-			// Generate Markdown
-			const markdown = this.generateMarkdown(email, attachmentLinks, movedEmlName);
-
-			// Create Markdown file
-			await this.app.vault.create(mdPath, markdown);
+			// Save attachments, generate and create Markdown file
+			try {
+				await this.createEmailNote(email, mdPath, noteName, attachmentFolder, movedEmlName, {
+					tags: options.tags,
+					excludedAttachments: new Set((options.excludedAttachments || []).map(index => email.attachments[index]))
+				});
+			} catch (error) {
+				// Files in the attachments folder are never converted, so put the source back to retry it
+				if (movedEmlName) {
+					await this.app.fileManager.renameFile(file, sourcePath);
+				}
+				throw error;
+			}
 
 			// Handle original EML file (delete case)
 			if (this.settings.emlHandling === 'delete') {
@@ -253,292 +524,2108 @@ export default class EmlToMarkdownPlugin extends Plugin {
 	}
 
 	/**
-	 * Move the EML file to the attachments folder
+	 * Parse an email file and open the preview, which converts it once confirmed
 	 */
-	async moveEmlToAttachments(file: TFile, attachmentFolder: string): Promise<string> {
-		// Ensure attachment folder exists
-		await this.ensureFolderExists(attachmentFolder);
+	async openConversionPreview(file: TFile): Promise<void> {
+		try {
+			const email = await this.readEmailFile(file);
+			const duplicate = this.findDuplicateNote(email);
+			if (duplicate) {
+				if (this.settings.duplicateHandling === 'merge') {
+					await this.convertEmlFile(file);
+				} else {
+					new Notice(`${file.name} has already been converted to ${duplicate.basename}`);
+				}
+				return;
+			}
+			const mdPath = await this.resolveNotePath(email, file.parent?.path || '', file.basename);
+			if (!mdPath) {
+				new Notice(`${file.name} has already been converted`);
+				return;
+			}
+			new ConversionPreviewModal(this.app, this, file, email, mdPath).open();
+		} catch (error) {
+			console.error('EML preview error:', error);
+			new Notice(`Failed to read ${file.name}: ${(error as Error).message}`);
+		}
+	}
 
-		// Create unique filename if needed
-		const baseName = file.basename;
-		let newName = file.name;
-		let newPath = attachmentFolder
-			? normalizePath(`${attachmentFolder}/${newName}`)
-			: newName;
+	/**
+	 * Read and parse a single-message email file (.eml or Outlook .msg)
+	 */
+	async readEmailFile(file: TFile): Promise<ParsedEmail> {
+		if (file.extension === 'msg') {
+			return parseMsg(Buffer.from(await this.app.vault.readBinary(file)));
+		}
 
-		let counter = 1;
-		while (this.app.vault.getAbstractFileByPath(newPath)) {
-			newName = `${baseName}_${counter}.eml`;
-			newPath = attachmentFolder
-				? normalizePath(`${attachmentFolder}/${newName}`)
-				: newName;
-			counter++;
+		// Stream the file from disk, so a large message is never held in memory whole
+		const adapter = this.app.vault.adapter;
+		if (adapter instanceof FileSystemAdapter) {
+			const parser = new EmlStreamParser();
+			await new Promise<void>((resolve, reject) => {
+				const stream = createReadStream(adapter.getFullPath(file.path), { highWaterMark: FILE_CHUNK_SIZE });
+				stream.on('data', (chunk: Buffer) => {
+					try {
+						parser.write(chunk);
+					} catch (error) {
+						stream.destroy();
+						reject(error);
+					}
+				});
+				stream.on('end', () => resolve());
+				stream.on('error', reject);
+			});
+			return parser.end();
 		}
+		return parseEml(new Uint8Array(await this.app.vault.readBinary(file)));
+	}
 
-		// Move the file using FileManager (updates links automatically)
-		await this.app.fileManager.renameFile(file, newPath);
+	/**
+	 * Read a file chunk by chunk, handling each chunk before the next one is read
+	 */
+	async readFileChunks(file: TFile, onChunk: (chunk: Buffer) => void | Promise<void>): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (!(adapter instanceof FileSystemAdapter)) {
+			// Without file system access (mobile) the file can only be read whole
+			const content = Buffer.from(await this.app.vault.readBinary(file));
+			for (let start = 0; start < content.length; start += FILE_CHUNK_SIZE) {
+				await onChunk(content.subarray(start, start + FILE_CHUNK_SIZE));
+			}
+			return;
+		}
 
-		return newName;
+		const handle = await fs.open(adapter.getFullPath(file.path), 'r');
+		try {
+			for (;;) {
+				// A new buffer per chunk, as parsed messages keep pieces of it
+				const chunk = Buffer.alloc(FILE_CHUNK_SIZE);
+				const { bytesRead } = await handle.read(chunk, 0, chunk.length, null);
+				if (bytesRead === 0) break;
+				await onChunk(chunk.subarray(0, bytesRead));
+			}
+		} finally {
+			await handle.close();
+		}
 	}
 
 	/**
-	 * Save attachments to the attachment folder using Vault API
+	 * Convert every message of an mbox archive to its own Markdown note
 	 */
-	async saveAttachments(
-		email: ParsedEmail,
-		sourceFile: TFile,
-		attachmentFolder: string
-	): Promise<Map<string, string>> {
-		const attachmentLinks = new Map<string, string>();
-
-		if (email.attachments.length === 0) {
-			return attachmentLinks;
+	async convertMboxFile(file: TFile): Promise<void> {
+		// Prevent concurrent processing of the same file
+		if (this.processingFiles.has(file.path)) {
+			return;
 		}
 
-		// Ensure attachment folder exists
-		await this.ensureFolderExists(attachmentFolder);
+		// Mark as processing
+		this.processingFiles.add(file.path);
 
-		const baseName = sourceFile.basename;
+		try {
+			// Skip files already in attachments folder
+			if (this.isInAttachmentsFolder(file)) {
+				return;
+			}
 
-		for (const attachment of email.attachments) {
-			try {
-				// Skip attachments over size limit
-				if (attachment.content.length > MAX_ATTACHMENT_SIZE) {
-					continue;
-				}
+			// Count the messages first, for the notice and the width of the note numbers
+			let total = 0;
+			const counter = new MboxSplitter({ start: () => total++, write: () => undefined, end: () => undefined });
+			await this.readFileChunks(file, chunk => counter.write(chunk));
+			counter.end();
+			if (total === 0) {
+				new Notice(`No messages found in ${file.name}`);
+				return;
+			}
 
-				// Create safe filename
-				const safeName = this.sanitizeFilename(attachment.filename);
-				const attachmentName = `${baseName}_${safeName}`;
-				const attachmentPath = attachmentFolder
-					? normalizePath(`${attachmentFolder}/${attachmentName}`)
-					: attachmentName;
-
-				// Check if file already exists
-				if (this.app.vault.getAbstractFileByPath(attachmentPath)) {
-					// File exists, just add the link
-					attachmentLinks.set(attachment.filename, attachmentName);
-					if (attachment.contentId) {
-						attachmentLinks.set(`cid:${attachment.contentId}`, attachmentName);
+			new Notice(`Importing ${total} message(s) from ${file.name}...`);
+
+			// Notes go into a folder named after the archive, attachments share the usual folder
+			const noteFolder = file.parent && file.parent.path !== '/'
+				? normalizePath(`${file.parent.path}/${file.basename}`)
+				: file.basename;
+			const attachmentFolder = this.getAttachmentFolder(file);
+
+			// Fail on a missing template note before the mbox file is moved out of the way
+			await this.getTemplate();
+
+			// Handle mbox file based on settings (before creating notes so they can link to it)
+			let movedMboxName: string | null = null;
+			if (this.settings.emlHandling === 'move-to-attachments') {
+				movedMboxName = await this.moveEmlToAttachments(file, attachmentFolder);
+			}
+
+			const digits = String(total).length;
+			let converted = 0;
+			let skipped = 0;
+			let merged = 0;
+			let failed = 0;
+
+			const convertMessage = async (number: number, email: ParsedEmail) => {
+				const duplicate = this.findDuplicateNote(email);
+				if (duplicate) {
+					if (this.settings.duplicateHandling === 'merge') {
+						await this.mergeDuplicateNote(duplicate, email, movedMboxName);
+						merged++;
+					} else {
+						skipped++;
 					}
-					continue;
+					return;
 				}
 
-				// Write attachment using Vault API (binary)
-				await this.app.vault.createBinary(attachmentPath, attachment.content);
+				const subject = this.sanitizeNoteName(email.subject || 'Untitled Email');
+				const mdPath = await this.resolveNotePath(email, noteFolder, `${String(number).padStart(digits, '0')} ${subject}`);
+				if (!mdPath) {
+					skipped++;
+					return;
+				}
 
-				// Store link for markdown generation
-				attachmentLinks.set(attachment.filename, attachmentName);
+				const noteName = mdPath.substring(mdPath.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+				await this.createEmailNote(email, mdPath, noteName, attachmentFolder, movedMboxName);
+				converted++;
+			};
+
+			// Each message goes to its own parser as it is split off, and the messages completed
+			// by a chunk are converted before the next chunk is read
+			let current: { number: number; parser: EmlStreamParser; error: unknown } | null = null;
+			const completed: { number: number; email: ParsedEmail | null; error: unknown }[] = [];
+			let count = 0;
+			const splitter = new MboxSplitter({
+				start: () => {
+					current = { number: ++count, parser: new EmlStreamParser(), error: null };
+				},
+				write: data => {
+					if (!current || current.error) return;
+					try {
+						current.parser.write(data);
+					} catch (error) {
+						current.error = error;
+					}
+				},
+				end: () => {
+					if (!current) return;
+					let email: ParsedEmail | null = null;
+					try {
+						email = current.error ? null : current.parser.end();
+					} catch (error) {
+						current.error = error;
+					}
+					completed.push({ number: current.number, email, error: current.error });
+					current = null;
+				}
+			});
 
-				// Also store by content-id for inline images
-				if (attachment.contentId) {
-					attachmentLinks.set(`cid:${attachment.contentId}`, attachmentName);
+			const convertCompleted = async () => {
+				for (const { number, email, error } of completed.splice(0)) {
+					try {
+						if (!email) throw error;
+						await convertMessage(number, email);
+					} catch (error) {
+						failed++;
+						console.error(`Conversion of message ${number} in ${file.path} failed:`, error);
+					}
 				}
-			} catch (error) {
-				console.error(`Attachment save failed for ${attachment.filename}:`, error);
+			};
+
+			await this.readFileChunks(file, async chunk => {
+				splitter.write(chunk);
+				await convertCompleted();
+			});
+			splitter.end();
+			await convertCompleted();
+
+			// Handle original mbox file (delete case)
+			if (this.settings.emlHandling === 'delete' && failed === 0) {
+				await this.app.vault.delete(file);
 			}
-		}
 
-		return attachmentLinks;
+			const summary = [`Imported ${converted} of ${total} message(s) from ${file.name}.`];
+			if (skipped > 0) summary.push(`${skipped} already converted.`);
+			if (merged > 0) summary.push(`${merged} merged into existing notes.`);
+			if (failed > 0) summary.push(`${failed} failed.`);
+			new Notice(summary.join(' '));
+		} catch (error) {
+			console.error('mbox conversion error:', error);
+			new Notice(`Failed to convert ${file.name}: ${(error as Error).message}`);
+		} finally {
+			// Always remove from processing set
+			this.processingFiles.delete(file.path);
+		}
 	}
 
 	/**
-	 * Sanitize filename for safe file system use
+	 * Get the path for the note of an email from the name pattern and the folders of the rules.
+	 * Returns null if the email was already converted to that path.
+	 * The folder is only created along with the note.
 	 */
-	sanitizeFilename(filename: string): string {
-		return filename
-			.replace(/[<>:"/\\|?*]/g, '_')
-			.replace(/\s+/g, '_')
-			.replace(/_+/g, '_')
-			.substring(0, 200); // Limit length
+	async resolveNotePath(email: ParsedEmail, defaultFolder: string, baseName: string): Promise<string | null> {
+		const sender = email.from[0];
+		const context: TemplateContext = {
+			basename: baseName,
+			subject: email.subject || 'Untitled Email',
+			date: email.date,
+			messageId: email.messageId,
+			hash: email.messageId ? createHash('sha1').update(email.messageId).digest('hex').substring(0, 8) : '',
+			sender: sender ? {
+				name: sender.name || sender.address,
+				address: sender.address,
+				domain: getDomain(sender.address),
+				text: formatEmailAddress(sender)
+			} : null
+		};
+		const render = (template: string) => renderTemplate(template, context, {
+			formatDate: (date, format) => this.formatDate(date, format)
+		});
+
+		const name = this.sanitizeNoteName(render(this.settings.fileNamePattern)) || this.sanitizeNoteName(baseName);
+
+		const ruleFolder = applyRules(email, this.settings.rules).folder;
+		const folder = ruleFolder
+			? render(ruleFolder).split('/').map(part => this.sanitizeNoteName(part)).filter(part => part).join('/')
+			: defaultFolder;
+
+		const pathFor = (suffix: string) => normalizePath(folder && folder !== '/' ? `${folder}/${name}${suffix}.md` : `${name}${suffix}.md`);
+
+		let mdPath = pathFor('');
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(mdPath)) {
+			// Same name: skip if it is this email, else it is a different email with a colliding name
+			const existing = this.app.vault.getAbstractFileByPath(mdPath);
+			const existingId = existing instanceof TFile
+				? this.app.metadataCache.getFileCache(existing)?.frontmatter?.message_id
+				: null;
+			if (!existingId || !email.messageId || existingId === email.messageId) {
+				return null;
+			}
+			mdPath = pathFor(` ${counter}`);
+			counter++;
+		}
+
+		return mdPath;
 	}
 
 	/**
-	 * Format date according to settings
+	 * Save the attachments of a parsed email, generate its note, create it and add it to its thread
 	 */
-	formatDate(date: Date | null): string {
-		if (!date || isNaN(date.getTime())) {
-			return '';
+	async createEmailNote(
+		email: ParsedEmail,
+		mdPath: string,
+		baseName: string,
+		attachmentFolder: string,
+		movedEmlName: string | null,
+		options: NoteOptions = {}
+	): Promise<TFile> {
+		// Save attachments
+		const attachmentLinks = await this.saveAttachments(email, baseName, attachmentFolder, options.excludedAttachments);
+
+		// Render or create notes for emails forwarded as attachments
+		const attachedMessageLines = await this.renderAttachedMessages(email, mdPath, baseName, attachmentFolder);
+
+		// Find the note of the message this one replies to
+		const parentNote = this.settings.linkThreads ? this.findParentNote(email) : null;
+
+		// Link participants to their contact notes
+		const contactLinks = this.settings.createContactNotes ? await this.resolveContacts(email, mdPath) : new Map<string, string>();
+
+		// Generate Markdown
+		const template = await this.getTemplate();
+		const markdown = this.generateMarkdown(email, attachmentLinks, movedEmlName,
+			parentNote ? this.app.metadataCache.fileToLinktext(parentNote, mdPath) : null,
+			attachedMessageLines, template, contactLinks, options.tags);
+
+		// Create Markdown file
+		await this.ensureFolderExists(mdPath.substring(0, Math.max(0, mdPath.lastIndexOf('/'))));
+		const noteFile = await this.app.vault.create(mdPath, markdown);
+
+		this.recentEmailNotes.set(noteFile.path, {
+			file: noteFile,
+			messageId: email.messageId,
+			threadId: getThreadId(email),
+			date: email.date,
+			from: formatEmailAddresses(email.from)
+		});
+
+		// Add the note to its conversation index
+		if (this.settings.createThreadIndex && this.settings.useFrontmatter) {
+			await this.updateThreadIndex(email, noteFile);
 		}
 
-		const format = this.settings.dateFormat;
+		// Create or update a note per meeting invitation
+		if (this.settings.createEventNotes) {
+			for (const event of email.events) {
+				try {
+					await this.updateEventNote(event, noteFile);
+				} catch (error) {
+					console.error(`Error creating event note for ${event.summary || event.uid}:`, error);
+				}
+			}
+		}
 
-		const pad = (n: number) => n.toString().padStart(2, '0');
+		return noteFile;
+	}
 
-		return format
-			.replace('YYYY', date.getFullYear().toString())
-			.replace('MM', pad(date.getMonth() + 1))
-			.replace('DD', pad(date.getDate()))
-			.replace('HH', pad(date.getHours()))
-			.replace('mm', pad(date.getMinutes()))
-			.replace('ss', pad(date.getSeconds()));
+	/**
+	 * Generate the Markdown a conversion would write, without saving anything
+	 */
+	async previewMarkdown(file: TFile, email: ParsedEmail, mdPath: string, options: ConversionOptions = {}): Promise<string> {
+		const noteName = mdPath.substring(mdPath.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+		const attachmentFolder = this.getAttachmentFolder(file);
+		const excluded = new Set((options.excludedAttachments || []).map(index => email.attachments[index]));
+
+		// Predict the names attachments will be saved under, leaving out those the filter skips
+		const attachmentLinks = await this.saveAttachments(email, noteName, attachmentFolder, excluded, true);
+		const attachedMessageLines = await this.renderAttachedMessages(email, mdPath, noteName, attachmentFolder, true);
+		const movedEmlName = this.settings.emlHandling === 'move-to-attachments'
+			? this.getMovedFileName(file, attachmentFolder)
+			: null;
+		const parentNote = this.settings.linkThreads ? this.findParentNote(email) : null;
+		const contactLinks = this.settings.createContactNotes ? await this.resolveContacts(email, mdPath, true) : new Map<string, string>();
+
+		return this.generateMarkdown(email, attachmentLinks, movedEmlName,
+			parentNote ? this.app.metadataCache.fileToLinktext(parentNote, mdPath) : null,
+			attachedMessageLines, await this.getTemplate(), contactLinks, options.tags);
 	}
 
 	/**
-	 * Format date as ISO string for frontmatter
+	 * Check if a note was created from an email (type: email in its frontmatter)
 	 */
-	formatDateISO(date: Date | null): string {
-		if (!date || isNaN(date.getTime())) {
-			return '';
+	isEmailNote(file: TFile): boolean {
+		return file.extension === 'md' && this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'email';
+	}
+
+	/**
+	 * Regenerate email notes without writing them and show what would change
+	 */
+	async openReconversion(notes: TFile[]): Promise<void> {
+		new Notice(`Checking ${notes.length} email note(s)...`);
+		const results: Reconversion[] = [];
+		// Email files by message id, read only when a note has no link to its source
+		let sourcesById: Map<string, TFile> | null = null;
+
+		for (const note of notes) {
+			const result: Reconversion = { note, source: null, oldContent: '', content: null };
+			results.push(result);
+			try {
+				result.oldContent = await this.app.vault.read(note);
+				result.source = this.findLinkedSourceFile(note);
+				if (!result.source) {
+					const messageId = this.app.metadataCache.getFileCache(note)?.frontmatter?.message_id;
+					if (messageId) {
+						sourcesById = sourcesById || await this.indexEmailFiles();
+						result.source = sourcesById.get(messageId) || null;
+					}
+				}
+				if (result.source) {
+					result.content = await this.regenerateNote(note, result.source, result.oldContent, true);
+				}
+			} catch (error) {
+				console.error(`Re-conversion failed for ${note.path}:`, error);
+				result.error = (error as Error).message;
+			}
 		}
-		return date.toISOString();
+
+		new ReconversionModal(this.app, this, results).open();
 	}
 
 	/**
-	 * Generate attachment list markdown
+	 * Overwrite notes with their regenerated content, saving attachments and contacts for real this time
 	 */
-	generateAttachmentList(attachmentLinks: Map<string, string>): string[] {
-		const lines: string[] = [];
+	async applyReconversion(results: Reconversion[]): Promise<void> {
+		let updated = 0;
+		let failed = 0;
 
-		if (attachmentLinks.size === 0) {
-			return lines;
+		for (const result of results) {
+			if (!result.source) continue;
+			try {
+				const oldContent = await this.app.vault.read(result.note);
+				const content = await this.regenerateNote(result.note, result.source, oldContent, false);
+				if (content !== oldContent) {
+					await this.app.vault.modify(result.note, content);
+					updated++;
+				}
+			} catch (error) {
+				failed++;
+				console.error(`Re-conversion failed for ${result.note.path}:`, error);
+			}
 		}
 
-		lines.push('### Attachments');
+		new Notice(`Re-converted ${updated} email note(s). ${failed > 0 ? `${failed} failed.` : ''}`);
+	}
+
+	/**
+	 * Find the email file a note links to (the "Original" link)
+	 */
+	findLinkedSourceFile(note: TFile): TFile | null {
+		const cache = this.app.metadataCache.getFileCache(note);
+		const links = [...(cache?.links || []), ...(cache?.embeds || [])];
+		for (const link of links) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(link.link.split('#')[0], note.path);
+			if (target && (target.extension === 'eml' || target.extension === 'msg')) {
+				return target;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Parse every .eml and .msg file of the vault and map its message id to the file
+	 */
+	async indexEmailFiles(): Promise<Map<string, TFile>> {
+		const index = new Map<string, TFile>();
+		for (const file of this.app.vault.getFiles()) {
+			if (file.extension !== 'eml' && file.extension !== 'msg') continue;
+			try {
+				const email = await this.readEmailFile(file);
+				if (email.messageId && !index.has(email.messageId)) {
+					index.set(email.messageId, file);
+				}
+			} catch (error) {
+				console.error(`Could not read ${file.path}:`, error);
+			}
+		}
+		return index;
+	}
+
+	/**
+	 * Generate the note of an email again, at its current path, keeping the user's notes
+	 * and the frontmatter keys the template does not write
+	 */
+	async regenerateNote(note: TFile, source: TFile, oldContent: string, dryRun: boolean): Promise<string> {
+		const email = await this.readEmailFile(source);
+		const attachmentFolder = this.getAttachmentFolder(note);
+
+		const attachmentLinks = await this.saveAttachments(email, note.basename, attachmentFolder, new Set(), dryRun);
+		const attachedMessageLines = await this.renderAttachedMessages(email, note.path, note.basename, attachmentFolder, dryRun);
+		const parentNote = this.settings.linkThreads ? this.findParentNote(email) : null;
+		const contactLinks = this.settings.createContactNotes ? await this.resolveContacts(email, note.path, dryRun) : new Map<string, string>();
+
+		// Tags added in the conversion preview or by hand
+		const oldFrontmatter = this.readFrontmatter(oldContent);
+		const tagValue: unknown = oldFrontmatter.tags;
+		const tags = (Array.isArray(tagValue) ? tagValue : typeof tagValue === 'string' ? tagValue.split(/[,\s]+/) : [])
+			.filter((tag): tag is string => typeof tag === 'string' && tag !== '')
+			.map(tag => tag.replace(/^#/, ''));
+
+		const movedEmlName = this.settings.emlHandling === 'move-to-attachments'
+			? this.app.metadataCache.fileToLinktext(source, note.path)
+			: null;
+		const template = await this.getTemplate();
+		let markdown = this.generateMarkdown(email, attachmentLinks, movedEmlName,
+			parentNote ? this.app.metadataCache.fileToLinktext(parentNote, note.path) : null,
+			attachedMessageLines, template, contactLinks, tags);
+
+		// Notes written below the marker
+		const markerIndex = oldContent.indexOf(USER_NOTES_MARKER);
+		if (markerIndex >= 0) {
+			const userNotes = oldContent.substring(markerIndex + USER_NOTES_MARKER.length);
+			const newMarkerIndex = markdown.indexOf(USER_NOTES_MARKER);
+			markdown = newMarkerIndex >= 0
+				? markdown.substring(0, newMarkerIndex + USER_NOTES_MARKER.length) + userNotes
+				: `${markdown.replace(/\n*$/, '\n\n')}${USER_NOTES_MARKER}${userNotes}`;
+		}
+
+		// Frontmatter keys added by the user, i.e. neither generated, written by the template nor set by a rule
+		const templateKeys = template.split('\n').map(line => line.match(/^([\w-]+):/)).map(match => match ? match[1] : '');
+		const newFrontmatter = this.readFrontmatter(markdown);
+		const userKeys: Record<string, unknown> = {};
+		for (const key of Object.keys(oldFrontmatter)) {
+			if (!templateKeys.includes(key) && !GENERATED_FRONTMATTER_KEYS.includes(key) && !(key in newFrontmatter)) {
+				userKeys[key] = oldFrontmatter[key];
+			}
+		}
+		if (Object.keys(userKeys).length > 0) {
+			const yaml = stringifyYaml(userKeys).replace(/\n+$/, '');
+			const match = markdown.match(FRONTMATTER_PATTERN);
+			markdown = match
+				? `---\n${match[1]}\n${yaml}\n---\n${markdown.substring(match[0].length)}`
+				: `---\n${yaml}\n---\n\n${markdown}`;
+		}
+
+		return markdown;
+	}
+
+	/**
+	 * Parse the frontmatter block at the start of a note, empty if there is none or it is invalid
+	 */
+	readFrontmatter(content: string): Record<string, unknown> {
+		const match = content.match(FRONTMATTER_PATTERN);
+		if (!match) return {};
+		try {
+			const frontmatter = parseYaml(match[1]);
+			return frontmatter && typeof frontmatter === 'object' && !Array.isArray(frontmatter) ? frontmatter : {};
+		} catch (error) {
+			return {};
+		}
+	}
+
+	/**
+	 * Create an IMAP client for the server in the settings
+	 */
+	createImapClient(): ImapClient {
+		const { imapHost, imapPort, imapSecurity, imapUser, imapPassword } = this.settings;
+		if (!imapHost || !imapUser) {
+			throw new Error('Set up the IMAP server and username in the settings first');
+		}
+		return new ImapClient({ host: imapHost, port: imapPort, security: imapSecurity, user: imapUser, password: imapPassword });
+	}
+
+	/**
+	 * Connect to the IMAP server and list its folders
+	 */
+	async listMailboxFolders(): Promise<string[]> {
+		const client = this.createImapClient();
+		try {
+			await client.connect();
+			const folders = await client.listFolders();
+			await client.logout();
+			return folders;
+		} finally {
+			client.close();
+		}
+	}
+
+	/**
+	 * Import the messages added to the configured IMAP folders since the last sync
+	 * Messages whose message id already has a note are skipped, so a folder renumbered by
+	 * the server (new UIDVALIDITY) or a message in two folders never gives two notes
+	 */
+	async syncMailbox(): Promise<void> {
+		if (this.syncing) {
+			new Notice('Mailbox sync is already running');
+			return;
+		}
+		this.syncing = true;
+
+		let converted = 0;
+		let skipped = 0;
+		let failed = 0;
+		let client: ImapClient | null = null;
+		try {
+			client = this.createImapClient();
+			new Notice(`Syncing ${this.settings.imapHost}...`);
+			await client.connect();
+
+			const noteFolder = normalizePath(this.settings.imapNoteFolder || '/');
+			const attachmentFolder = this.getAttachmentFolderIn(noteFolder);
+			const folders = this.settings.imapFolders.split(',').map(folder => folder.trim()).filter(folder => folder);
+
+			for (const folder of folders) {
+				const status = await client.openFolder(folder);
+				const key = `${this.settings.imapUser}@${this.settings.imapHost}:${this.settings.imapPort}/${folder}`;
+				const state = this.syncState.get(key);
+				let lastUid = state && state.uidValidity === status.uidValidity ? state.lastUid : 0;
+
+				// Messages after a failed import are fetched again next time (their notes are then
+				// skipped by message id), so the failed one is retried
+				let importFailed = false;
+				for (const uid of await client.searchUids(lastUid + 1)) {
+					// Connection errors end the sync, keeping the last imported UID
+					const raw = await client.fetchMessage(uid);
+					try {
+						if (raw) {
+							if (await this.importMailboxMessage(raw, noteFolder, attachmentFolder)) {
+								converted++;
+							} else {
+								skipped++;
+							}
+						}
+					} catch (error) {
+						failed++;
+						importFailed = true;
+						console.error(`Import of message ${uid} in ${folder} failed:`, error);
+						continue;
+					}
+					if (!importFailed) {
+						lastUid = uid;
+						this.syncState.set(key, { uidValidity: status.uidValidity, lastUid });
+					}
+				}
+				await this.syncState.save();
+			}
+
+			await client.logout();
+
+			const summary = [`Imported ${converted} new message(s) from ${folders.length} folder(s).`];
+			if (skipped > 0) summary.push(`${skipped} already converted.`);
+			if (failed > 0) summary.push(`${failed} failed.`);
+			new Notice(summary.join(' '));
+		} catch (error) {
+			console.error('Mailbox sync error:', error);
+			new Notice(`Mailbox sync failed: ${(error as Error).message}`);
+		} finally {
+			client?.close();
+			await this.syncState.save();
+			this.syncing = false;
+		}
+	}
+
+	/**
+	 * (Re)start the timer scanning the Maildir, following the interval setting
+	 */
+	scheduleMaildirScan(): void {
+		if (this.maildirInterval !== null) {
+			window.clearInterval(this.maildirInterval);
+			this.maildirInterval = null;
+		}
+		const minutes = this.settings.maildirScanInterval;
+		if (!this.settings.maildirPath || minutes <= 0) return;
+		this.maildirInterval = this.registerInterval(window.setInterval(() => this.scanMaildir(false), minutes * 60 * 1000));
+	}
+
+	/**
+	 * Import the Maildir messages not imported before
+	 * Timed scans only show a notice when they import something
+	 */
+	async scanMaildir(manual: boolean): Promise<void> {
+		if (!this.settings.maildirPath) {
+			if (manual) new Notice('Set the Maildir path in the settings first');
+			return;
+		}
+		if (this.scanningMaildir) {
+			if (manual) new Notice('Maildir import is already running');
+			return;
+		}
+		this.scanningMaildir = true;
+
+		const root = this.settings.maildirPath.replace(/^~(?=$|[\\/])/, homedir());
+		let converted = 0;
+		let skipped = 0;
+		let failed = 0;
+		try {
+			const messages = (await listMaildirMessages(root))
+				.filter(message => !this.syncState.hasMaildirMessage(root, message.key));
+			if (messages.length === 0) {
+				if (manual) new Notice('No new messages in the Maildir');
+				return;
+			}
+			if (manual) new Notice(`Importing ${messages.length} message(s) from the Maildir...`);
+
+			const noteFolder = normalizePath(this.settings.maildirNoteFolder || '/');
+			const attachmentFolder = this.getAttachmentFolderIn(noteFolder);
+
+			for (const message of messages) {
+				try {
+					if (await this.importMailboxMessage(await fs.readFile(message.path), noteFolder, attachmentFolder)) {
+						converted++;
+					} else {
+						skipped++;
+					}
+					this.syncState.addMaildirMessage(root, message.key);
+				} catch (error) {
+					// Tried again on the next scan
+					failed++;
+					console.error(`Import of ${message.path} failed:`, error);
+				}
+			}
+
+			if (manual || converted > 0 || failed > 0) {
+				const summary = [`Imported ${converted} new message(s) from the Maildir.`];
+				if (skipped > 0) summary.push(`${skipped} already converted.`);
+				if (failed > 0) summary.push(`${failed} failed.`);
+				new Notice(summary.join(' '));
+			}
+		} catch (error) {
+			console.error('Maildir import error:', error);
+			new Notice(`Maildir import failed: ${(error as Error).message}`);
+		} finally {
+			await this.syncState.save();
+			this.scanningMaildir = false;
+		}
+	}
+
+	/**
+	 * Convert a message from a mailbox outside the vault (IMAP or Maildir), keeping its
+	 * source as an .eml file unless email files are deleted after conversion
+	 * Returns false if the message was converted before
+	 */
+	async importMailboxMessage(raw: Buffer, noteFolder: string, attachmentFolder: string): Promise<boolean> {
+		const email = parseEml(raw);
+		if (email.messageId && this.findNoteByMessageId(email.messageId)) {
+			return false;
+		}
+
+		const mdPath = await this.resolveNotePath(email, noteFolder, this.sanitizeNoteName(email.subject || 'Untitled Email'));
+		if (!mdPath) {
+			return false;
+		}
+		const noteName = mdPath.substring(mdPath.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+
+		let sourceName: string | null = null;
+		if (this.settings.emlHandling !== 'delete') {
+			await this.ensureFolderExists(attachmentFolder);
+			const source = await this.storeAttachment(raw, attachmentFolder, `${this.sanitizeFilename(noteName)}.eml`);
+			sourceName = source.name;
+		}
+
+		await this.createEmailNote(email, mdPath, noteName, attachmentFolder, sourceName);
+		return true;
+	}
+
+	/**
+	 * Build an .eml file next to a note from its frontmatter, its message body (also rendered as HTML)
+	 * and the files it links as attachments. Notes without a message id become unsent drafts.
+	 */
+	async exportNoteToEml(note: TFile): Promise<void> {
+		try {
+			const content = await this.app.vault.read(note);
+			const frontmatter = this.readFrontmatter(content);
+			const match = content.match(FRONTMATTER_PATTERN);
+			const text = extractMessageBody(match ? content.substring(match[0].length) : content);
+
+			const from = this.readFrontmatterAddresses(frontmatter.from);
+			const readString = (value: unknown) => typeof value === 'string' ? value.replace(/^<|>$/g, '') : '';
+			const existingId = readString(frontmatter.message_id);
+			const draft = !existingId;
+			const date = new Date(readString(frontmatter.date));
+			const inReplyTo = readString(frontmatter.in_reply_to);
+			const threadId = readString(frontmatter.thread_id);
+
+			const attachments = await this.collectExportAttachments(note, frontmatter.attachments);
+			const html = await this.renderNoteHtml(text, note.path, attachments);
+
+			const eml = buildEml({
+				from,
+				to: this.readFrontmatterAddresses(frontmatter.to),
+				cc: this.readFrontmatterAddresses(frontmatter.cc),
+				bcc: this.readFrontmatterAddresses(frontmatter.bcc),
+				replyTo: this.readFrontmatterAddresses(frontmatter.reply_to),
+				subject: readString(frontmatter.subject) || note.basename,
+				date: draft || isNaN(date.getTime()) ? new Date() : date,
+				messageId: existingId || createMessageId(from[0] ? getDomain(from[0].address) : ''),
+				inReplyTo,
+				references: Array.from(new Set([threadId, inReplyTo].filter(id => id && id !== existingId))),
+				textBody: text,
+				htmlBody: html,
+				attachments,
+				draft
+			});
+
+			const folder = note.parent?.path || '';
+			const pathFor = (suffix: string) => normalizePath(folder && folder !== '/'
+				? `${folder}/${note.basename}${suffix}.eml`
+				: `${note.basename}${suffix}.eml`);
+			let path = pathFor('');
+			let counter = 1;
+			while (this.app.vault.getAbstractFileByPath(path)) {
+				path = pathFor(` ${counter}`);
+				counter++;
+			}
+
+			// Keep the new file from being converted right back into a note
+			this.processingFiles.add(path);
+			try {
+				await this.app.vault.createBinary(path, eml.buffer.slice(eml.byteOffset, eml.byteOffset + eml.byteLength));
+			} finally {
+				this.processingFiles.delete(path);
+			}
+			new Notice(`Exported ${draft ? 'draft ' : ''}to ${path}`);
+		} catch (error) {
+			console.error(`EML export failed for ${note.path}:`, error);
+			new Notice(`Failed to export ${note.name}: ${(error as Error).message}`);
+		}
+	}
+
+	/**
+	 * Read an address property of a note: a list of names and addresses or (older notes) a string
+	 */
+	readFrontmatterAddresses(value: unknown): EmailAddress[] {
+		const items = Array.isArray(value) ? value : value ? [value] : [];
+		const addresses: EmailAddress[] = [];
+		for (const item of items) {
+			if (item && typeof item === 'object') {
+				const { name, address } = item as { name?: unknown; address?: unknown };
+				if (typeof address === 'string' && address) {
+					addresses.push({ name: typeof name === 'string' ? name : '', address });
+				}
+			} else if (typeof item === 'string') {
+				addresses.push(...parseAddressList(item));
+			}
+		}
+		return addresses;
+	}
+
+	/**
+	 * Read the files a note exports as attachments: those of its attachments property
+	 * and the other non-note files it embeds
+	 */
+	async collectExportAttachments(note: TFile, property: unknown): Promise<OutgoingAttachment[]> {
+		const links = (Array.isArray(property) ? property : [])
+			.filter((item): item is string => typeof item === 'string')
+			.map(item => item.match(/^\[\[([^\]|#]+)/))
+			.filter((match): match is RegExpMatchArray => !!match)
+			.map(match => match[1]);
+		const embeds = this.app.metadataCache.getFileCache(note)?.embeds || [];
+		links.push(...embeds.map(embed => embed.link.split('#')[0]));
+
+		const attachments: OutgoingAttachment[] = [];
+		const seen = new Set<string>();
+		for (const link of links) {
+			const file = this.app.metadataCache.getFirstLinkpathDest(link, note.path);
+			if (!file || seen.has(file.path) || file.extension === 'md' || EMAIL_EXTENSIONS.includes(file.extension)) {
+				continue;
+			}
+			seen.add(file.path);
+			attachments.push({
+				filename: file.name,
+				contentType: getContentTypeForFile(file.name),
+				content: new Uint8Array(await this.app.vault.readBinary(file))
+			});
+		}
+		return attachments;
+	}
+
+	/**
+	 * Render the text of a note to HTML for the HTML body of an exported email
+	 * Embedded images are shown from their attachment (cid: links), other embeds by name
+	 */
+	async renderNoteHtml(text: string, sourcePath: string, attachments: OutgoingAttachment[]): Promise<string> {
+		const markdown = text.replace(/!\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g, (embed, link: string) => {
+			const file = this.app.metadataCache.getFirstLinkpathDest(link, sourcePath);
+			const attachment = file && attachments.find(item => item.filename === file.name);
+			if (!attachment) {
+				return embed;
+			}
+			if (attachment.contentType.startsWith('image/')) {
+				attachment.contentId = attachment.contentId || createMessageId('obsidian');
+				return `![${attachment.filename}](cid:${attachment.contentId})`;
+			}
+			return attachment.filename;
+		});
+
+		const container = document.createElement('div');
+		const component = new Component();
+		component.load();
+		try {
+			await MarkdownRenderer.render(this.app, markdown, container, sourcePath, component);
+		} finally {
+			component.unload();
+		}
+		return `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body>${container.innerHTML}</body></html>`;
+	}
+
+	/**
+	 * Render the messages attached to an email, either as collapsible callouts
+	 * or as separate notes linked from the parent note
+	 */
+	async renderAttachedMessages(
+		email: ParsedEmail,
+		mdPath: string,
+		baseName: string,
+		attachmentFolder: string,
+		dryRun = false
+	): Promise<string[]> {
+		const lines: string[] = [];
+
+		for (const attached of email.attachedMessages) {
+			if (this.settings.attachedMessageHandling === 'separate-notes') {
+				// Without an id the note could not be found again and would be created on every conversion
+				if (!attached.messageId) {
+					attached.messageId = this.getContentMessageId(attached);
+				}
+
+				// Link the note of a message converted before (e.g. when re-converting the parent)
+				const existing = this.findNoteByMessageId(attached.messageId);
+				if (existing) {
+					lines.push(`- [[${this.app.metadataCache.fileToLinktext(existing, mdPath)}]]`);
+					continue;
+				}
+
+				// Child notes live next to the parent note
+				const folder = mdPath.includes('/') ? mdPath.substring(0, mdPath.lastIndexOf('/')) : '';
+				const parentName = mdPath.substring(folder ? folder.length + 1 : 0).replace(/\.md$/i, '');
+				const subject = this.sanitizeNoteName(attached.subject || 'Attached Email');
+				const childName = `${parentName} - ${subject}`;
+				let childPath = normalizePath(folder ? `${folder}/${childName}.md` : `${childName}.md`);
+				let counter = 1;
+				while (this.app.vault.getAbstractFileByPath(childPath)) {
+					childPath = normalizePath(folder ? `${folder}/${childName} ${counter}.md` : `${childName} ${counter}.md`);
+					counter++;
+				}
+				if (dryRun) {
+					lines.push(`- [[${childPath.substring(childPath.lastIndexOf('/') + 1).replace(/\.md$/i, '')}]]`);
+					continue;
+				}
+
+				const childFile = await this.createEmailNote(attached, childPath, childName, attachmentFolder, null);
+				lines.push(`- [[${this.app.metadataCache.fileToLinktext(childFile, mdPath)}]]`);
+			} else {
+				const attachmentLinks = await this.saveAttachments(attached, baseName, attachmentFolder, new Set(), dryRun);
+				const nestedLines = await this.renderAttachedMessages(attached, mdPath, baseName, attachmentFolder, dryRun);
+				lines.push(...this.generateAttachedMessageCallout(attached, attachmentLinks, nestedLines));
+				lines.push('');
+			}
+		}
+
+		return lines;
+	}
+
+	/**
+	 * Make up a message id for a message without one from a hash of its headers, body and attachments,
+	 * so the same message always gets the same id
+	 */
+	getContentMessageId(email: ParsedEmail): string {
+		const hash = createHash('sha256');
+		const date = email.date && !isNaN(email.date.getTime()) ? email.date.toISOString() : '';
+		for (const value of [formatEmailAddresses(email.from), formatEmailAddresses(email.to), email.subject, date,
+			email.textBody, email.htmlBody]) {
+			hash.update(value).update('\0');
+		}
+		for (const attachment of email.attachments) {
+			hash.update(attachment.content);
+		}
+		return `${hash.digest('hex').substring(0, 32)}@content-hash.invalid`;
+	}
+
+	/**
+	 * Generate a collapsible callout containing an attached message
+	 */
+	generateAttachedMessageCallout(
+		email: ParsedEmail,
+		attachmentLinks: Map<string, string>,
+		attachedMessageLines: string[]
+	): string[] {
+		const lines: string[] = [];
+
+		lines.push(`[!quote]- ${email.subject || 'Untitled Email'}`);
+		if (email.from.length > 0) {
+			lines.push(`**From:** ${formatEmailAddresses(email.from)}`);
+		}
+		if (email.to.length > 0) {
+			lines.push(`**To:** ${formatEmailAddresses(email.to)}`);
+		}
+		if (email.cc.length > 0) {
+			lines.push(`**CC:** ${formatEmailAddresses(email.cc)}`);
+		}
+		if (email.date) {
+			lines.push(`**Date:** ${this.formatDate(email.date)}`);
+		}
 		lines.push('');
 
-		attachmentLinks.forEach((linkName, originalName) => {
-			// Skip cid: entries (duplicates)
-			if (originalName.startsWith('cid:')) {
-				return;
+		const body = this.renderBody(email, attachmentLinks);
+		if (body) {
+			lines.push(...body.split('\n'));
+			lines.push('');
+		}
+
+		lines.push(...this.generateAttachmentList(attachmentLinks));
+
+		lines.push(...attachedMessageLines);
+
+		// Drop trailing blank lines, then quote every line
+		while (lines.length > 0 && lines[lines.length - 1] === '') {
+			lines.pop();
+		}
+		return lines.map(line => line ? `> ${line}` : '>');
+	}
+
+	/**
+	 * Find the converted note whose frontmatter has the given message id
+	 */
+	findNoteByMessageId(messageId: string): TFile | null {
+		if (!messageId) return null;
+
+		// Notes created this session may not be in the metadata cache yet
+		for (const recent of this.recentEmailNotes.values()) {
+			if (recent.messageId === messageId && this.app.vault.getAbstractFileByPath(recent.file.path)) {
+				return recent.file;
+			}
+		}
+
+		for (const path of this.messageIndex.get(messageId)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				return file;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Get the message id in the frontmatter of an email note
+	 */
+	getNoteMessageId(file: TFile): string | null {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter || frontmatter.type !== 'email' || !frontmatter.message_id) {
+			return null;
+		}
+		return String(frontmatter.message_id);
+	}
+
+	/**
+	 * Find the existing note of an email, unless duplicates are allowed
+	 */
+	findDuplicateNote(email: ParsedEmail): TFile | null {
+		if (this.settings.duplicateHandling === 'allow') return null;
+		return this.findNoteByMessageId(email.messageId);
+	}
+
+	/**
+	 * Skip or merge an email file whose message already has a note
+	 */
+	async handleDuplicate(file: TFile, email: ParsedEmail, duplicate: TFile): Promise<void> {
+		// Skipped like an email whose note already exists
+		if (this.settings.duplicateHandling !== 'merge') {
+			return;
+		}
+
+		// The extra copy is handled like a converted file
+		let copyLink: string | null = null;
+		if (this.settings.emlHandling === 'move-to-attachments') {
+			copyLink = await this.moveEmlToAttachments(file, this.getAttachmentFolder(file));
+		} else if (this.settings.emlHandling === 'keep') {
+			copyLink = this.app.metadataCache.fileToLinktext(file, duplicate.path);
+		}
+
+		await this.mergeDuplicateNote(duplicate, email, copyLink);
+
+		if (this.settings.emlHandling === 'delete') {
+			await this.app.vault.delete(file);
+		}
+		new Notice(`Merged ${file.name} into ${duplicate.basename}`);
+	}
+
+	/**
+	 * Record another copy of a message in its note: the recipient it was delivered to and the copy's file
+	 */
+	async mergeDuplicateNote(note: TFile, email: ParsedEmail, copyLink: string | null): Promise<void> {
+		await this.app.fileManager.processFrontMatter(note, (frontmatter) => {
+			const toList = (value: unknown): string[] => (Array.isArray(value) ? value : value ? [value] : []).map(String);
+
+			const deliveredTo = toList(frontmatter.delivered_to);
+			for (const addr of email.deliveredTo) {
+				if (!deliveredTo.some(address => address.toLowerCase() === addr.address.toLowerCase())) {
+					deliveredTo.push(addr.address);
+				}
+			}
+			if (deliveredTo.length > 0) {
+				frontmatter.delivered_to = deliveredTo;
+			}
+
+			if (copyLink) {
+				const copies = toList(frontmatter.copies);
+				const link = `[[${copyLink}]]`;
+				if (!copies.includes(link)) {
+					copies.push(link);
+				}
+				frontmatter.copies = copies;
+			}
+		});
+	}
+
+	/**
+	 * Find the note of the closest ancestor of an email that has been converted
+	 */
+	findParentNote(email: ParsedEmail): TFile | null {
+		const ancestors = [email.inReplyTo, ...email.references.slice().reverse()];
+		for (const messageId of ancestors) {
+			const note = this.findNoteByMessageId(messageId);
+			if (note) return note;
+		}
+		return null;
+	}
+
+	/**
+	 * Create or update the index note listing every converted message of a thread in date order
+	 */
+	async updateThreadIndex(email: ParsedEmail, noteFile: TFile): Promise<void> {
+		const threadId = getThreadId(email);
+		if (!threadId) return;
+
+		// Collect converted messages of this thread and the existing index note, if any
+		const entries: { file: TFile; date: Date | null; from: string }[] = [];
+		let indexFile: TFile | null = this.recentThreadIndexes.get(threadId) || null;
+		if (indexFile && !this.app.vault.getAbstractFileByPath(indexFile.path)) {
+			indexFile = null;
+		}
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter || frontmatter.thread_id !== threadId) continue;
+
+			if (frontmatter.type === 'email-thread') {
+				indexFile = file;
+			} else if (frontmatter.type === 'email' && !this.recentEmailNotes.has(file.path)) {
+				entries.push({
+					file,
+					date: frontmatter.date ? new Date(frontmatter.date) : null,
+					from: this.formatFrontmatterAddresses(frontmatter.from)
+				});
+			}
+		}
+
+		// Notes created this session may not be in the metadata cache yet
+		for (const recent of this.recentEmailNotes.values()) {
+			if (recent.threadId === threadId && this.app.vault.getAbstractFileByPath(recent.file.path)) {
+				entries.push({ file: recent.file, date: recent.date, from: recent.from });
+			}
+		}
+
+		// A single message is not a conversation yet
+		if (entries.length < 2 && !indexFile) return;
+
+		entries.sort((a, b) => {
+			const timeA = a.date && !isNaN(a.date.getTime()) ? a.date.getTime() : 0;
+			const timeB = b.date && !isNaN(b.date.getTime()) ? b.date.getTime() : 0;
+			return timeA - timeB;
+		});
+
+		const subject = normalizeSubject(email.subject) || 'Untitled Email';
+
+		if (!indexFile) {
+			const folder = this.settings.threadIndexFolder || noteFile.parent?.path || '';
+			await this.ensureFolderExists(folder);
+
+			const baseName = `Thread - ${this.sanitizeNoteName(subject)}`;
+			let indexPath = normalizePath(folder ? `${folder}/${baseName}.md` : `${baseName}.md`);
+			let counter = 1;
+			while (this.app.vault.getAbstractFileByPath(indexPath)) {
+				indexPath = normalizePath(folder ? `${folder}/${baseName} ${counter}.md` : `${baseName} ${counter}.md`);
+				counter++;
+			}
+			indexFile = await this.app.vault.create(indexPath, '');
+		}
+		this.recentThreadIndexes.set(threadId, indexFile);
+
+		const lines: string[] = [];
+		lines.push(this.formatFrontmatter({
+			type: 'email-thread',
+			thread_id: threadId,
+			subject,
+			messages: entries.length
+		}));
+		lines.push('');
+		lines.push(`# ${subject}`);
+		lines.push('');
+
+		for (const entry of entries) {
+			const link = this.app.metadataCache.fileToLinktext(entry.file, indexFile.path);
+			const date = this.formatDate(entry.date);
+			const parts = [date, entry.from, `[[${link}]]`].filter(part => part);
+			lines.push(`- ${parts.join(' — ')}`);
+		}
+		lines.push('');
+
+		await this.app.vault.modify(indexFile, lines.join('\n'));
+	}
+
+	/**
+	 * Map every address listed in a contact note (type: contact, emails: [...]) to that note
+	 */
+	getContactIndex(): Map<string, TFile> {
+		const index = new Map<string, TFile>();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter || frontmatter.type !== 'contact') continue;
+
+			// Several addresses of one person map to the same note
+			const emails: unknown[] = Array.isArray(frontmatter.emails) ? frontmatter.emails : [frontmatter.emails];
+			for (const address of emails) {
+				if (typeof address === 'string' && address.trim()) {
+					index.set(address.trim().toLowerCase(), file);
+				}
+			}
+		}
+
+		// Notes created this session may not be in the metadata cache yet
+		this.recentContacts.forEach((file, address) => {
+			if (!index.has(address) && this.app.vault.getAbstractFileByPath(file.path)) {
+				index.set(address, file);
+			}
+		});
+
+		return index;
+	}
+
+	/**
+	 * Find or create the contact notes of the participants of an email
+	 * Returns link text per lowercase address; a dry run links the notes it would create by their future names
+	 */
+	async resolveContacts(email: ParsedEmail, mdPath: string, dryRun = false): Promise<Map<string, string>> {
+		const links = new Map<string, string>();
+		const index = this.getContactIndex();
+		const participants = [...email.from, ...email.to, ...email.cc, ...email.bcc, ...email.replyTo];
+
+		for (const addr of participants) {
+			const address = addr.address.toLowerCase();
+			if (!address.includes('@') || links.has(address)) continue;
+
+			try {
+				let contact = index.get(address);
+				if (dryRun) {
+					links.set(address, contact
+						? this.app.metadataCache.fileToLinktext(contact, mdPath)
+						: this.getNewContactPath(addr).replace(/^.*\//, '').replace(/\.md$/i, ''));
+					continue;
+				}
+				if (contact) {
+					await this.updateContactNote(contact, email);
+				} else {
+					contact = await this.createContactNote(addr, email);
+					index.set(address, contact);
+				}
+				this.recentContacts.set(address, contact);
+				links.set(address, this.app.metadataCache.fileToLinktext(contact, mdPath));
+			} catch (error) {
+				console.error(`Error updating contact note for ${addr.address}:`, error);
+			}
+		}
+
+		return links;
+	}
+
+	/**
+	 * Get a free path for the contact note of an address
+	 */
+	getNewContactPath(addr: EmailAddress): string {
+		const folder = this.settings.contactFolder;
+
+		// Another person may already have a note with the same name
+		let name = this.sanitizeNoteName(addr.name || addr.address);
+		let contactPath = normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+		if (this.app.vault.getAbstractFileByPath(contactPath) && addr.name) {
+			name = this.sanitizeNoteName(`${addr.name} (${addr.address})`);
+			contactPath = normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+		}
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(contactPath)) {
+			contactPath = normalizePath(folder ? `${folder}/${name} ${counter}.md` : `${name} ${counter}.md`);
+			counter++;
+		}
+
+		return contactPath;
+	}
+
+	/**
+	 * Create the contact note of an address
+	 */
+	async createContactNote(addr: EmailAddress, email: ParsedEmail): Promise<TFile> {
+		await this.ensureFolderExists(this.settings.contactFolder);
+		const contactPath = this.getNewContactPath(addr);
+
+		const properties: Record<string, unknown> = {
+			type: 'contact',
+			name: addr.name || addr.address,
+			emails: [addr.address]
+		};
+		if (email.date && !isNaN(email.date.getTime())) {
+			properties.last_email = email.date.toISOString();
+		}
+
+		const lines: string[] = [];
+		lines.push(this.formatFrontmatter(properties));
+		lines.push('');
+		lines.push(`# ${addr.name || addr.address}`);
+		lines.push('');
+
+		return await this.app.vault.create(contactPath, lines.join('\n'));
+	}
+
+	/**
+	 * Record the date of the latest email in a contact note
+	 */
+	async updateContactNote(contact: TFile, email: ParsedEmail): Promise<void> {
+		if (!email.date || isNaN(email.date.getTime())) return;
+		const date = email.date;
+
+		await this.app.fileManager.processFrontMatter(contact, (frontmatter) => {
+			const last = frontmatter.last_email ? new Date(frontmatter.last_email) : null;
+			if (!last || isNaN(last.getTime()) || last < date) {
+				frontmatter.last_email = date.toISOString();
+			}
+		});
+	}
+
+	/**
+	 * Find the event note of a calendar event by its UID
+	 */
+	findEventNote(uid: string): TFile | null {
+		const recent = this.recentEventNotes.get(uid);
+		if (recent && this.app.vault.getAbstractFileByPath(recent.path)) {
+			return recent;
+		}
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (frontmatter && frontmatter.type === 'event' && frontmatter.uid === uid) {
+				return file;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Create the note of a calendar event, or update it from a newer invitation or cancellation
+	 */
+	async updateEventNote(event: CalendarEvent, emailNote: TFile): Promise<void> {
+		// Replies only carry an attendee's answer
+		if (event.method === 'REPLY') return;
+
+		const existing = event.uid ? this.findEventNote(event.uid) : null;
+		if (existing) {
+			await this.app.fileManager.processFrontMatter(existing, (frontmatter) => {
+				const emailLink = `[[${this.app.metadataCache.fileToLinktext(emailNote, existing.path)}]]`;
+				const emails: unknown[] = Array.isArray(frontmatter.emails) ? frontmatter.emails : [];
+				if (!emails.includes(emailLink)) {
+					frontmatter.emails = [...emails, emailLink];
+				}
+
+				// Older updates never overwrite newer ones
+				if (event.sequence < (Number(frontmatter.sequence) || 0)) return;
+				const context = this.buildEventContext(event);
+				frontmatter.title = context.title;
+				frontmatter.start = context.start;
+				frontmatter.end = context.end;
+				frontmatter.location = event.location;
+				frontmatter.status = event.status || frontmatter.status;
+				frontmatter.sequence = event.sequence;
+			});
+			return;
+		}
+
+		const folder = this.settings.eventFolder;
+		await this.ensureFolderExists(folder);
+
+		const context = this.buildEventContext(event);
+		const datePrefix = event.start ? `${this.formatDate(event.start, 'YYYY-MM-DD')} ` : '';
+		const baseName = this.sanitizeNoteName(`${datePrefix}${context.title}`);
+		let eventPath = normalizePath(folder ? `${folder}/${baseName}.md` : `${baseName}.md`);
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(eventPath)) {
+			eventPath = normalizePath(folder ? `${folder}/${baseName} ${counter}.md` : `${baseName} ${counter}.md`);
+			counter++;
+		}
+
+		const properties: Record<string, unknown> = { type: 'event' };
+		if (event.uid) {
+			properties.uid = event.uid;
+		}
+		properties.title = context.title;
+		if (context.start) {
+			properties.start = context.start;
+		}
+		if (context.end) {
+			properties.end = context.end;
+		}
+		properties.all_day = event.allDay;
+		if (event.timezone) {
+			properties.timezone = event.timezone;
+		}
+		if (event.location) {
+			properties.location = event.location;
+		}
+		if (event.organizer) {
+			properties.organizer = this.formatAttendee(event.organizer);
+		}
+		if (event.attendees.length > 0) {
+			properties.attendees = event.attendees.map(attendee => this.formatAttendee(attendee));
+		}
+		if (event.status) {
+			properties.status = event.status;
+		}
+		properties.sequence = event.sequence;
+		properties.emails = [`[[${this.app.metadataCache.fileToLinktext(emailNote, eventPath)}]]`];
+
+		const lines: string[] = [];
+		lines.push(this.formatFrontmatter(properties));
+		lines.push('');
+		lines.push(`# ${context.title}`);
+		lines.push('');
+		if (event.description) {
+			lines.push(event.description);
+			lines.push('');
+		}
+
+		const eventFile = await this.app.vault.create(eventPath, lines.join('\n'));
+		if (event.uid) {
+			this.recentEventNotes.set(event.uid, eventFile);
+		}
+	}
+
+	/**
+	 * Move the EML (or MSG/mbox) file to the attachments folder
+	 */
+	async moveEmlToAttachments(file: TFile, attachmentFolder: string): Promise<string> {
+		// Ensure attachment folder exists
+		await this.ensureFolderExists(attachmentFolder);
+
+		const newName = this.getMovedFileName(file, attachmentFolder);
+		const newPath = attachmentFolder ? normalizePath(`${attachmentFolder}/${newName}`) : newName;
+
+		// Move the file using FileManager (updates links automatically)
+		await this.app.fileManager.renameFile(file, newPath);
+
+		return newName;
+	}
+
+	/**
+	 * Get the name an email file gets when moved to the attachments folder, unique in that folder
+	 */
+	getMovedFileName(file: TFile, attachmentFolder: string): string {
+		const baseName = file.basename;
+		let newName = file.name;
+		let newPath = attachmentFolder
+			? normalizePath(`${attachmentFolder}/${newName}`)
+			: newName;
+
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(newPath)) {
+			newName = `${baseName}_${counter}.${file.extension}`;
+			newPath = attachmentFolder
+				? normalizePath(`${attachmentFolder}/${newName}`)
+				: newName;
+			counter++;
+		}
+
+		return newName;
+	}
+
+	/**
+	 * Save attachments to the attachment folder using Vault API
+	 * Attachments skipped by the filter rules map to an empty link
+	 * A dry run only works out the links, without saving anything
+	 */
+	async saveAttachments(
+		email: ParsedEmail,
+		baseName: string,
+		attachmentFolder: string,
+		excluded: Set<Attachment> = new Set(),
+		dryRun = false
+	): Promise<Map<string, string>> {
+		const attachmentLinks = new Map<string, string>();
+
+		if (email.attachments.length === 0) {
+			return attachmentLinks;
+		}
+
+		// A shared folder holds attachments of all emails under their own names
+		const sharedFolder = this.settings.sharedAttachmentFolder;
+		const folder = sharedFolder || attachmentFolder;
+		if (!dryRun) {
+			await this.ensureFolderExists(folder);
+		}
+
+		const filter = this.getAttachmentFilter();
+
+		for (const attachment of email.attachments) {
+			try {
+				// Left out in the conversion preview: neither saved nor listed
+				if (excluded.has(attachment)) {
+					if (attachment.contentId) {
+						attachmentLinks.set(`cid:${attachment.contentId}`, '');
+					}
+					continue;
+				}
+
+				const skipReason = getSkipReason(attachment, filter);
+				if (skipReason) {
+					// An empty link keeps the attachment listed without saving it
+					if (this.settings.listSkippedAttachments) {
+						attachmentLinks.set(attachment.filename, '');
+					}
+					// Drop references to skipped inline images from the body
+					if (attachment.contentId) {
+						attachmentLinks.set(`cid:${attachment.contentId}`, '');
+					}
+					continue;
+				}
+
+				// Create safe filename
+				const safeName = this.sanitizeFilename(attachment.filename);
+				const fileName = sharedFolder ? safeName : `${baseName}_${safeName}`;
+				const target = dryRun
+					? await this.findAttachmentPath(attachment.content, folder, fileName, true)
+					: await this.storeAttachment(attachment.content, folder, fileName);
+				const linkName = target instanceof TFile
+					? this.app.metadataCache.fileToLinktext(target, '')
+					: target.substring(target.lastIndexOf('/') + 1);
+
+				// Store link for markdown generation
+				attachmentLinks.set(attachment.filename, linkName);
+
+				// Also store by content-id for inline images
+				if (attachment.contentId) {
+					attachmentLinks.set(`cid:${attachment.contentId}`, linkName);
+				}
+			} catch (error) {
+				console.error(`Attachment save failed for ${attachment.filename}:`, error);
 			}
+		}
 
-			const ext = linkName.split('.').pop()?.toLowerCase() || '';
-			const isImage = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp'].includes(ext);
+		if (!dryRun) {
+			await this.attachmentIndex.save();
+		}
+		return attachmentLinks;
+	}
 
-			if (isImage) {
-				lines.push(`- ![[${linkName}]]`);
-			} else {
-				lines.push(`- [[${linkName}]]`);
+	/**
+	 * Get the attachment filter rules from the settings
+	 */
+	getAttachmentFilter(): AttachmentFilter {
+		return {
+			minSize: this.settings.minAttachmentSize * 1024,
+			maxSize: this.settings.maxAttachmentSize * 1024 * 1024,
+			allow: parseFilterList(this.settings.attachmentAllowList),
+			deny: parseFilterList(this.settings.attachmentDenyList),
+			minInlineImageSize: this.settings.minInlineImageSize
+		};
+	}
+
+	/**
+	 * Save attachment content, reusing an identical file saved before
+	 */
+	async storeAttachment(content: Buffer, folder: string, fileName: string): Promise<TFile> {
+		const target = await this.findAttachmentPath(content, folder, fileName);
+		if (target instanceof TFile) {
+			return target;
+		}
+
+		// Saved email files (attached or synced messages) are not new emails to convert
+		this.processingFiles.add(target);
+		try {
+			const file = await this.app.vault.createBinary(target, content);
+			this.attachmentIndex.set(hashContent(content), file.path);
+			return file;
+		} finally {
+			this.processingFiles.delete(target);
+		}
+	}
+
+	/**
+	 * Find an identical attachment saved before, or the path to save a new one under
+	 * A different file with the same name gets a numbered name instead of being linked
+	 * A dry run leaves the attachment index as it is
+	 */
+	async findAttachmentPath(content: Buffer, folder: string, fileName: string, dryRun = false): Promise<TFile | string> {
+		const hash = hashContent(content);
+
+		if (this.settings.deduplicateAttachments) {
+			const indexedPath = this.attachmentIndex.get(hash);
+			if (indexedPath) {
+				const indexed = this.app.vault.getAbstractFileByPath(indexedPath);
+				if (indexed instanceof TFile && indexed.stat.size === content.length) {
+					return indexed;
+				}
+				if (!dryRun) {
+					this.attachmentIndex.delete(hash);
+				}
 			}
-		});
+		}
 
-		lines.push('');
+		const dotIndex = fileName.lastIndexOf('.');
+		const stem = dotIndex > 0 ? fileName.substring(0, dotIndex) : fileName;
+		const extension = dotIndex > 0 ? fileName.substring(dotIndex) : '';
 
-		return lines;
+		let attachmentPath = normalizePath(folder ? `${folder}/${fileName}` : fileName);
+		let counter = 1;
+		let existing = this.app.vault.getAbstractFileByPath(attachmentPath);
+		while (existing) {
+			// Same name and same content (e.g. the email was converted before)
+			if (existing instanceof TFile && existing.stat.size === content.length &&
+				hashContent(Buffer.from(await this.app.vault.readBinary(existing))) === hash) {
+				if (!dryRun) {
+					this.attachmentIndex.set(hash, existing.path);
+				}
+				return existing;
+			}
+			const candidate = `${stem} ${counter}${extension}`;
+			attachmentPath = normalizePath(folder ? `${folder}/${candidate}` : candidate);
+			existing = this.app.vault.getAbstractFileByPath(attachmentPath);
+			counter++;
+		}
+
+		return attachmentPath;
 	}
 
 	/**
-	 * Generate Markdown content from parsed email
+	 * Sanitize filename for safe file system use
 	 */
-	generateMarkdown(
-		email: ParsedEmail,
-		attachmentLinks: Map<string, string>,
-		movedEmlName: string | null
-	): string {
-		const lines: string[] = [];
+	sanitizeFilename(filename: string): string {
+		return filename
+			.replace(/[<>:"/\\|?*]/g, '_')
+			.replace(/\s+/g, '_')
+			.replace(/_+/g, '_')
+			.substring(0, 200); // Limit length
+	}
+
+	/**
+	 * Sanitize a note name, keeping spaces and characters allowed in Obsidian links
+	 */
+	sanitizeNoteName(name: string): string {
+		return name
+			.replace(/[\\/:*?"<>|#^[\]]/g, '-')
+			.replace(/\s+/g, ' ')
+			.trim()
+			.replace(/^\.+/, '')
+			.substring(0, 200); // Limit length
+	}
+
+	/**
+	 * Format date according to settings, or to the given format
+	 */
+	formatDate(date: Date | null, format: string = this.settings.dateFormat): string {
+		if (!date || isNaN(date.getTime())) {
+			return '';
+		}
+
+		const pad = (n: number) => n.toString().padStart(2, '0');
+
+		return format
+			.replace('YYYY', date.getFullYear().toString())
+			.replace('MM', pad(date.getMonth() + 1))
+			.replace('DD', pad(date.getDate()))
+			.replace('HH', pad(date.getHours()))
+			.replace('mm', pad(date.getMinutes()))
+			.replace('ss', pad(date.getSeconds()));
+	}
+
+	/**
+	 * Format an organizer or attendee for display
+	 */
+	formatAttendee(attendee: CalendarAttendee): string {
+		return formatEmailAddress({ name: attendee.name, address: attendee.address });
+	}
 
-		// Frontmatter
-		if (this.settings.useFrontmatter) {
-			lines.push('---');
-			if (email.from.length > 0) {
-				lines.push(`from: "${this.escapeYaml(formatEmailAddresses(email.from))}"`);
+	/**
+	 * Build the template values of a calendar event
+	 */
+	buildEventContext(event: CalendarEvent): TemplateContext & { title: string; start: string; end: string } {
+		// All-day events are dates without a time zone
+		const toValue = (date: Date | null) => {
+			if (!date || isNaN(date.getTime())) return '';
+			return event.allDay ? this.formatDate(date, 'YYYY-MM-DD') : date.toISOString();
+		};
+
+		let when = '';
+		if (event.start) {
+			if (event.allDay) {
+				// DTEND of all-day events is exclusive
+				const lastDay = event.end ? new Date(event.end.getTime() - 24 * 3600 * 1000) : null;
+				when = this.formatDate(event.start, 'YYYY-MM-DD');
+				if (lastDay && lastDay > event.start) {
+					when += ` – ${this.formatDate(lastDay, 'YYYY-MM-DD')}`;
+				}
+			} else {
+				when = this.formatDate(event.start);
+				if (event.end) {
+					const sameDay = event.end.toDateString() === event.start.toDateString();
+					when += ` – ${this.formatDate(event.end, sameDay ? 'HH:mm' : this.settings.dateFormat)}`;
+				}
 			}
-			if (email.to.length > 0) {
-				lines.push(`to: "${this.escapeYaml(formatEmailAddresses(email.to))}"`);
+		}
+
+		const toAttendee = (attendee: CalendarAttendee) => ({
+			name: attendee.name,
+			address: attendee.address,
+			role: attendee.role,
+			status: attendee.status,
+			text: this.formatAttendee(attendee)
+		});
+
+		return {
+			title: event.summary || 'Untitled event',
+			summary: event.summary,
+			description: event.description,
+			location: event.location,
+			method: event.method,
+			status: event.status,
+			uid: event.uid,
+			start: toValue(event.start),
+			end: toValue(event.end),
+			when,
+			allDay: event.allDay,
+			timezone: event.timezone,
+			recurrence: event.recurrence,
+			organizer: event.organizer ? toAttendee(event.organizer) : null,
+			attendees: event.attendees.map(toAttendee),
+			text: event.summary
+		};
+	}
+
+	/**
+	 * Generate the section describing the meeting invitations of an email
+	 */
+	generateEventSection(events: CalendarEvent[]): string {
+		const labels: Record<string, string> = {
+			REQUEST: 'Invitation',
+			CANCEL: 'Cancelled',
+			REPLY: 'Reply',
+			COUNTER: 'Counter proposal'
+		};
+
+		return events.map(event => {
+			const context = this.buildEventContext(event);
+			const lines: string[] = [];
+			const cancelled = event.method === 'CANCEL' || event.status === 'CANCELLED';
+
+			lines.push(`[!${cancelled ? 'warning' : 'info'}] ${labels[event.method] || 'Event'}: ${context.title}`);
+			if (context.when) {
+				lines.push(`**When:** ${context.when}`);
 			}
-			if (email.cc.length > 0) {
-				lines.push(`cc: "${this.escapeYaml(formatEmailAddresses(email.cc))}"`);
+			if (event.timezone && !event.allDay) {
+				lines.push(`**Time zone:** ${event.timezone}`);
 			}
-			if (email.bcc.length > 0) {
-				lines.push(`bcc: "${this.escapeYaml(formatEmailAddresses(email.bcc))}"`);
+			if (event.location) {
+				lines.push(`**Where:** ${event.location}`);
 			}
-			if (email.date) {
-				lines.push(`date: ${this.formatDateISO(email.date)}`);
+			if (event.organizer) {
+				lines.push(`**Organizer:** ${this.formatAttendee(event.organizer)}`);
 			}
-			if (email.subject) {
-				lines.push(`subject: "${this.escapeYaml(email.subject)}"`);
+			if (event.attendees.length > 0) {
+				const attendees = event.attendees.map(attendee => {
+					const status = attendee.status && attendee.status !== 'NEEDS-ACTION' ? ` (${attendee.status.toLowerCase()})` : '';
+					return this.formatAttendee(attendee) + status;
+				});
+				lines.push(`**Attendees:** ${attendees.join(', ')}`);
 			}
-			if (email.messageId) {
-				lines.push(`message_id: "${this.escapeYaml(email.messageId)}"`);
+			if (event.recurrence) {
+				lines.push(`**Repeats:** ${event.recurrence}`);
 			}
-			lines.push('type: email');
-			lines.push('---');
-			lines.push('');
+			if (event.description) {
+				lines.push('');
+				lines.push(...event.description.split('\n'));
+			}
+
+			return lines.map(line => line ? `> ${line}` : '>').join('\n');
+		}).join('\n\n');
+	}
+
+	/**
+	 * Generate attachment list markdown
+	 */
+	generateAttachmentList(attachmentLinks: Map<string, string>): string[] {
+		const lines: string[] = [];
+		const entries = this.getAttachmentEntries(attachmentLinks);
+
+		if (entries.length === 0) {
+			return lines;
+		}
+
+		lines.push('### Attachments');
+		lines.push('');
+
+		for (const attachment of entries) {
+			lines.push(`- ${attachment.embed}`);
 		}
 
-		// Title
-		lines.push(`# ${email.subject || 'Untitled Email'}`);
 		lines.push('');
 
-		// Headers in body
-		if (this.settings.showHeadersInBody) {
-			if (email.from.length > 0) {
-				lines.push(`**From:** ${formatEmailAddresses(email.from)}`);
+		return lines;
+	}
+
+	/**
+	 * List saved attachments with their wikilinks (embedded for images)
+	 */
+	getAttachmentEntries(attachmentLinks: Map<string, string>): { name: string; link: string; embed: string; isImage: boolean; skipped: boolean }[] {
+		const entries: { name: string; link: string; embed: string; isImage: boolean; skipped: boolean }[] = [];
+
+		attachmentLinks.forEach((linkName, originalName) => {
+			// Skip cid: entries (duplicates)
+			if (originalName.startsWith('cid:')) {
+				return;
+			}
+
+			// Listed but not saved
+			if (!linkName) {
+				entries.push({ name: originalName, link: '', embed: `${originalName} (not saved)`, isImage: false, skipped: true });
+				return;
+			}
+
+			const ext = linkName.split('.').pop()?.toLowerCase() || '';
+			const isImage = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp'].includes(ext);
+
+			entries.push({
+				name: originalName,
+				link: linkName,
+				embed: isImage ? `![[${linkName}]]` : `[[${linkName}]]`,
+				isImage,
+				skipped: false
+			});
+		});
+
+		return entries;
+	}
+
+	/**
+	 * Get the note template: a template note in the vault, the custom template, or the default
+	 */
+	async getTemplate(): Promise<string> {
+		if (this.settings.templateFile) {
+			const path = normalizePath(this.settings.templateFile.replace(/(\.md)?$/i, '.md'));
+			const templateFile = this.app.vault.getAbstractFileByPath(path);
+			if (!(templateFile instanceof TFile)) {
+				throw new Error(`Template note not found: ${path}`);
 			}
-			if (email.to.length > 0) {
-				lines.push(`**To:** ${formatEmailAddresses(email.to)}`);
+			return this.app.vault.cachedRead(templateFile);
+		}
+		return this.settings.customTemplate || DEFAULT_TEMPLATE;
+	}
+
+	/**
+	 * Build the values available to note templates
+	 */
+	buildTemplateContext(
+		email: ParsedEmail,
+		attachmentLinks: Map<string, string>,
+		movedEmlName: string | null,
+		parentLink: string | null,
+		attachedMessageLines: string[],
+		contactLinks: Map<string, string> = new Map(),
+		tags: string[] = []
+	): TemplateContext {
+		const toContext = (addresses: EmailAddress[]) => addresses.map(addr => {
+			// Link to the contact note, showing the display name
+			const contact = contactLinks.get(addr.address.toLowerCase()) || '';
+			const label = addr.name || addr.address;
+			const link = contact ? (contact === label ? `[[${contact}]]` : `[[${contact}|${label}]]`) : '';
+			return {
+				name: addr.name,
+				address: addr.address,
+				group: addr.group || '',
+				contact,
+				link,
+				text: link || formatEmailAddress(addr)
+			};
+		});
+
+		const attachments = this.getAttachmentEntries(attachmentLinks);
+		const position = this.settings.attachmentListPosition;
+
+		// Tags of every note, of the matching rules and of this conversion
+		const rules = applyRules(email, this.settings.rules);
+		const allTags = Array.from(new Set([
+			...parseTags(this.settings.frontmatterTags),
+			...rules.tags,
+			...tags
+		]));
+		const frontmatter = this.buildFrontmatter(email, attachments, allTags, contactLinks, rules.properties);
+
+		// Drop trailing blank lines of the attached messages section
+		const attachedMessages = attachedMessageLines.slice();
+		while (attachedMessages.length > 0 && attachedMessages[attachedMessages.length - 1] === '') {
+			attachedMessages.pop();
+		}
+
+		return {
+			subject: email.subject,
+			title: email.subject || 'Untitled Email',
+			date: email.date,
+			messageId: email.messageId,
+			inReplyTo: email.inReplyTo,
+			threadId: getThreadId(email),
+			from: toContext(email.from)[0] || null,
+			senders: toContext(email.from),
+			to: toContext(email.to),
+			cc: toContext(email.cc),
+			bcc: toContext(email.bcc),
+			replyTo: toContext(email.replyTo),
+			sender: email.sender ? toContext([email.sender])[0] : null,
+			body: this.renderBody(email, attachmentLinks),
+			attachments,
+			attachedMessages: attachedMessages.join('\n'),
+			events: email.events.map(event => this.buildEventContext(event)),
+			event: email.events.length > 0 ? this.buildEventContext(email.events[0]) : null,
+			calendar: this.generateEventSection(email.events),
+			parentLink,
+			tags: allTags,
+			properties: rules.properties,
+			frontmatter: stringifyYaml(frontmatter).replace(/\n$/, ''),
+			original: movedEmlName && this.settings.linkMovedEml ? movedEmlName : null,
+			useFrontmatter: this.settings.useFrontmatter,
+			showHeaders: this.settings.showHeadersInBody,
+			attachmentsTop: attachments.length > 0 && (position === 'top' || position === 'both'),
+			attachmentsBottom: attachments.length > 0 && (position === 'bottom' || position === 'both')
+		};
+	}
+
+	/**
+	 * Build the frontmatter properties of an email note, with the optional fields enabled in the settings
+	 * and the properties of the matching rules
+	 */
+	buildFrontmatter(
+		email: ParsedEmail,
+		attachments: { name: string; link: string; skipped: boolean }[],
+		tags: string[],
+		contactLinks: Map<string, string>,
+		ruleProperties: Record<string, string> = {}
+	): Record<string, unknown> {
+		const fields = this.settings.frontmatterFields;
+		const properties: Record<string, unknown> = {};
+		const toList = (addresses: EmailAddress[]) => addresses.map(addr =>
+			addr.name ? { name: addr.name, address: addr.address } : { address: addr.address });
+
+		if (email.subject) {
+			properties.subject = email.subject;
+		}
+		if (email.date && !isNaN(email.date.getTime())) {
+			properties.date = email.date.toISOString();
+		}
+
+		if (fields.includes('participants')) {
+			const lists: [string, EmailAddress[]][] = [
+				['from', email.from], ['to', email.to], ['cc', email.cc], ['bcc', email.bcc], ['reply_to', email.replyTo]
+			];
+			const participants: string[] = [];
+			for (const [key, addresses] of lists) {
+				if (addresses.length === 0) continue;
+				properties[key] = toList(addresses);
+				for (const addr of addresses) {
+					const address = addr.address.toLowerCase();
+					if (address && !participants.includes(address)) {
+						participants.push(address);
+					}
+				}
 			}
-			if (email.cc.length > 0) {
-				lines.push(`**CC:** ${formatEmailAddresses(email.cc)}`);
+			if (participants.length > 0) {
+				properties.participants = participants;
 			}
-			if (email.date) {
-				lines.push(`**Date:** ${this.formatDate(email.date)}`);
+
+			const contacts = participants
+				.map(address => contactLinks.get(address))
+				.filter((link): link is string => !!link)
+				.map(link => `[[${link}]]`);
+			if (contacts.length > 0) {
+				properties.contacts = Array.from(new Set(contacts));
 			}
+		}
 
-			// Link to moved EML if configured
-			if (movedEmlName && this.settings.linkMovedEml) {
-				lines.push(`**Original:** [[${movedEmlName}]]`);
+		if (email.messageId) {
+			properties.message_id = email.messageId;
+		}
+		if (email.inReplyTo) {
+			properties.in_reply_to = email.inReplyTo;
+		}
+		const threadId = getThreadId(email);
+		// Thread index notes find the messages of a thread by thread_id
+		if ((fields.includes('thread') || this.settings.createThreadIndex) && threadId) {
+			properties.thread_id = threadId;
+		}
+		if (fields.includes('list-id') && email.listId) {
+			properties.list_id = email.listId;
+		}
+		if (fields.includes('size') && email.size) {
+			properties.size = email.size;
+		}
+		if (fields.includes('attachments')) {
+			properties.has_attachments = attachments.length > 0;
+			if (attachments.length > 0) {
+				properties.attachments = attachments.map(entry => entry.skipped ? entry.name : `[[${entry.link}]]`);
 			}
+		}
 
-			lines.push('');
-			lines.push('---');
-			lines.push('');
+		if (fields.includes('event') && email.events.length > 0) {
+			const event = this.buildEventContext(email.events[0]);
+			properties.event_title = event.title;
+			if (event.start) properties.event_start = event.start;
+			if (event.end) properties.event_end = event.end;
+			if (email.events[0].location) properties.event_location = email.events[0].location;
+			if (email.events[0].method) properties.event_method = email.events[0].method;
 		}
 
-		// Attachments at top if configured
-		const showAttachmentsTop = this.settings.attachmentListPosition === 'top' ||
-			this.settings.attachmentListPosition === 'both';
-		const showAttachmentsBottom = this.settings.attachmentListPosition === 'bottom' ||
-			this.settings.attachmentListPosition === 'both';
+		// Rule properties never replace the generated ones
+		for (const key of Object.keys(ruleProperties)) {
+			if (!GENERATED_FRONTMATTER_KEYS.includes(key)) {
+				properties[key] = ruleProperties[key];
+			}
+		}
 
-		if (showAttachmentsTop && attachmentLinks.size > 0) {
-			lines.push(...this.generateAttachmentList(attachmentLinks));
-			lines.push('---');
-			lines.push('');
+		if (fields.includes('tags') && tags.length > 0) {
+			properties.tags = tags;
 		}
+		properties.type = 'email';
+
+		return properties;
+	}
+
+	/**
+	 * Generate Markdown content from parsed email
+	 */
+	generateMarkdown(
+		email: ParsedEmail,
+		attachmentLinks: Map<string, string>,
+		movedEmlName: string | null,
+		parentLink: string | null = null,
+		attachedMessageLines: string[] = [],
+		template: string = DEFAULT_TEMPLATE,
+		contactLinks: Map<string, string> = new Map(),
+		tags: string[] = []
+	): string {
+		const context = this.buildTemplateContext(email, attachmentLinks, movedEmlName, parentLink, attachedMessageLines, contactLinks, tags);
+		return renderTemplate(template, context, {
+			formatDate: (date, format) => this.formatDate(date, format)
+		});
+	}
+
+	/**
+	 * Render the body of an email as Markdown, linking inline images to saved attachments
+	 */
+	renderBody(email: ParsedEmail, attachmentLinks: Map<string, string>): string {
+		const handling = this.settings.quoteHandling;
+		let parts: SplitBody = { body: '', signature: '', quoted: '' };
 
-		// Body
-		let body = '';
 		if (email.textBody) {
-			body = email.textBody;
+			parts = handling === 'keep' ? { ...parts, body: email.textBody } : splitReplyText(email.textBody);
 		} else if (email.htmlBody) {
-			body = htmlToMarkdown(email.htmlBody);
-
-			// Replace cid: references with attachment links
-			attachmentLinks.forEach((linkName, cidRef) => {
-				if (cidRef.startsWith('cid:')) {
-					body = body.replace(
-						new RegExp(`!\\[([^\\]]*)\\]\\(${this.escapeRegex(cidRef)}\\)`, 'g'),
-						`![[${linkName}]]`
-					);
-				}
-			});
+			if (handling === 'keep') {
+				parts.body = htmlToMarkdown(email.htmlBody);
+			} else {
+				const html = splitReplyHtml(email.htmlBody);
+				// Fall back to text detection for clients without recognizable markup
+				parts = splitReplyText(htmlToMarkdown(html.html));
+				parts.signature = [htmlToMarkdown(html.signatureHtml), parts.signature].filter(part => part).join('\n\n');
+				parts.quoted = [parts.quoted, htmlToMarkdown(html.quotedHtml)].filter(part => part).join('\n\n');
+			}
 		}
 
-		if (body) {
-			lines.push(body);
-			lines.push('');
+		let body = parts.body;
+		if (handling === 'collapse') {
+			if (parts.signature) {
+				body += '\n\n' + this.generateCallout('Signature', parts.signature);
+			}
+			if (parts.quoted) {
+				body += '\n\n' + this.generateCallout('Quoted text', parts.quoted);
+			}
 		}
 
-		// Attachments at bottom if configured
-		if (showAttachmentsBottom && attachmentLinks.size > 0) {
-			lines.push('---');
-			lines.push('');
-			lines.push(...this.generateAttachmentList(attachmentLinks));
-		}
+		// Replace cid: references with attachment links
+		attachmentLinks.forEach((linkName, cidRef) => {
+			if (cidRef.startsWith('cid:')) {
+				body = body.replace(
+					new RegExp(`!\\[([^\\]]*)\\]\\(${this.escapeRegex(cidRef)}\\)`, 'g'),
+					linkName ? `![[${linkName}]]` : ''
+				);
+			}
+		});
+		return body;
+	}
 
-		return lines.join('\n');
+	/**
+	 * Wrap Markdown in a collapsed quote callout
+	 */
+	generateCallout(title: string, content: string): string {
+		const lines = content.split('\n').map(line => line ? `> ${line}` : '>');
+		return [`> [!quote]- ${title}`, ...lines].join('\n');
+	}
+
+	/**
+	 * Format properties as a frontmatter block
+	 */
+	formatFrontmatter(properties: Record<string, unknown>): string {
+		return `---\n${stringifyYaml(properties)}---`;
 	}
 
 	/**
-	 * Escape YAML special characters
+	 * Format the from/to/cc property of an email note for display, from a list or (older notes) a string
 	 */
-	escapeYaml(str: string): string {
-		return str
-			.replace(/\\/g, '\\\\')
-			.replace(/"/g, '\\"')
-			.replace(/\n/g, '\\n');
+	formatFrontmatterAddresses(value: unknown): string {
+		if (!Array.isArray(value)) {
+			return typeof value === 'string' ? value : '';
+		}
+		return value.map(item => {
+			if (item && typeof item === 'object') {
+				const { name, address } = item as { name?: string; address?: string };
+				return name && address ? `${name} <${address}>` : name || address || '';
+			}
+			return String(item);
+		}).filter(text => text).join(', ');
 	}
 
 	/**
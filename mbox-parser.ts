@@ -0,0 +1,161 @@
+/**
+ * Lightweight mbox splitter for Obsidian
+ * Splits mbox archives (Thunderbird, Google Takeout, ...) into single messages
+ * Works on bytes, so messages keep their 8-bit content for the MIME parser to decode
+ */
+
+const LF = 0x0A;
+const CR = 0x0D;
+const GREATER_THAN = 0x3E;
+
+/**
+ * Check if a line is an mbox message separator ("From sender date")
+ */
+function isFromLine(line: Buffer, offset = 0): boolean {
+	return line.length >= offset + 5 && line.toString('latin1', offset, offset + 5) === 'From ';
+}
+
+/**
+ * Check if a line is empty apart from its line break
+ */
+function isBlankLine(line: Buffer): boolean {
+	return line.length === 0 || line[0] === LF || (line[0] === CR && line[1] === LF);
+}
+
+/**
+ * Undo "From " escaping in a message line.
+ * mboxrd escapes ">From " as ">>From ", mboxo escapes "From " as ">From ";
+ * removing one ">" restores the original line in both cases.
+ */
+function unescapeFromLine(line: Buffer): Buffer {
+	let offset = 0;
+	while (line[offset] === GREATER_THAN) {
+		offset++;
+	}
+	return offset > 0 && isFromLine(line, offset) ? line.subarray(1) : line;
+}
+
+// Longest line kept whole while looking for its end; longer lines are passed on in pieces
+const MAX_LINE_LENGTH = 8192;
+
+/**
+ * Receives the messages of an mbox archive as they are split off
+ */
+export interface MboxMessageHandler {
+	// A message starts; its bytes follow
+	start(): void;
+	write(data: Buffer): void;
+	end(): void;
+}
+
+/**
+ * Incremental mbox splitter: reads an archive chunk by chunk and passes the lines of each
+ * message on as soon as they are read, so neither the archive nor a message is held in memory whole
+ */
+export class MboxSplitter {
+	private handler: MboxMessageHandler;
+	// Start of a line that continues in the next chunk
+	private carry: Buffer = Buffer.alloc(0);
+	// A separator starts the file or follows a blank line
+	private afterBlankLine = true;
+	// The last line read was a piece of a long message line, or of a long separator to skip
+	private midLine = false;
+	private skipLine = false;
+	// A separator was read, and the handler was told about the message
+	private inMessage = false;
+	private started = false;
+	// Blank lines held back until it is known they do not separate two messages
+	private blankLines: Buffer[] = [];
+
+	constructor(handler: MboxMessageHandler) {
+		this.handler = handler;
+	}
+
+	/**
+	 * Read the next bytes of the archive
+	 */
+	write(chunk: Uint8Array): void {
+		const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+		const buffer = this.carry.length > 0 ? Buffer.concat([this.carry, data]) : data;
+
+		let start = 0;
+		let lineEnd = buffer.indexOf(LF, start);
+		while (lineEnd !== -1) {
+			this.readLine(buffer.subarray(start, lineEnd + 1), false);
+			start = lineEnd + 1;
+			lineEnd = buffer.indexOf(LF, start);
+		}
+
+		const rest = buffer.subarray(start);
+		if (rest.length > MAX_LINE_LENGTH) {
+			this.readLine(rest, true);
+			this.carry = Buffer.alloc(0);
+		} else {
+			this.carry = Buffer.from(rest);
+		}
+	}
+
+	/**
+	 * Finish the last message
+	 */
+	end(): void {
+		if (this.carry.length > 0) {
+			const rest = this.carry;
+			this.carry = Buffer.alloc(0);
+			this.readLine(rest, false);
+		}
+		this.finishMessage();
+	}
+
+	/**
+	 * Handle a line with its line break, or a piece of a long line (partial)
+	 */
+	private readLine(line: Buffer, partial: boolean): void {
+		if (this.midLine || this.skipLine) {
+			if (this.midLine) {
+				this.handler.write(line);
+			}
+			this.midLine = this.midLine && partial;
+			this.skipLine = this.skipLine && partial;
+			return;
+		}
+
+		if (this.afterBlankLine && isFromLine(line)) {
+			this.finishMessage();
+			this.inMessage = true;
+			this.afterBlankLine = false;
+			this.skipLine = partial;
+			return;
+		}
+		this.afterBlankLine = !partial && isBlankLine(line);
+
+		// Ignore anything before the first separator
+		if (!this.inMessage) return;
+
+		if (this.afterBlankLine) {
+			this.blankLines.push(line);
+			return;
+		}
+
+		if (!this.started) {
+			this.handler.start();
+			this.started = true;
+		}
+		this.blankLines.forEach(blankLine => this.handler.write(blankLine));
+		this.blankLines = [];
+		this.handler.write(unescapeFromLine(line));
+		this.midLine = partial;
+	}
+
+	/**
+	 * End the current message, dropping the blank line that separates it from the next "From " line
+	 */
+	private finishMessage(): void {
+		this.blankLines = [];
+		if (this.started) {
+			this.handler.end();
+			this.started = false;
+		}
+		this.inMessage = false;
+	}
+}
@@ -0,0 +1,70 @@
+/**
+ * Index of converted email notes by message id, used to detect messages converted twice
+ */
+export class MessageIndex {
+	// Note paths by message id
+	private paths: Map<string, Set<string>> = new Map();
+	// Message id by note path
+	private messageIds: Map<string, string> = new Map();
+
+	/**
+	 * Record the message id of a note, or forget the note if it has none
+	 */
+	set(path: string, messageId: string | null): void {
+		if (this.messageIds.get(path) === messageId) return;
+		this.delete(path);
+		if (!messageId) return;
+
+		this.messageIds.set(path, messageId);
+		const paths = this.paths.get(messageId) || new Set<string>();
+		paths.add(path);
+		this.paths.set(messageId, paths);
+	}
+
+	/**
+	 * Get the paths of the notes of a message
+	 */
+	get(messageId: string): string[] {
+		return Array.from(this.paths.get(messageId) || []);
+	}
+
+	/**
+	 * Forget a deleted note
+	 */
+	delete(path: string): void {
+		const messageId = this.messageIds.get(path);
+		if (messageId === undefined) return;
+
+		this.messageIds.delete(path);
+		const paths = this.paths.get(messageId);
+		if (paths) {
+			paths.delete(path);
+			if (paths.size === 0) {
+				this.paths.delete(messageId);
+			}
+		}
+	}
+
+	/**
+	 * Follow a renamed or moved note
+	 */
+	rename(oldPath: string, newPath: string): void {
+		const messageId = this.messageIds.get(oldPath);
+		if (messageId === undefined) return;
+		this.delete(oldPath);
+		this.set(newPath, messageId);
+	}
+
+	/**
+	 * Messages with more than one note
+	 */
+	getDuplicates(): { messageId: string; paths: string[] }[] {
+		const duplicates: { messageId: string; paths: string[] }[] = [];
+		this.paths.forEach((paths, messageId) => {
+			if (paths.size > 1) {
+				duplicates.push({ messageId, paths: Array.from(paths).sort() });
+			}
+		});
+		return duplicates;
+	}
+}
@@ -0,0 +1,487 @@
+/**
+ * Lightweight Outlook .msg parser for Obsidian
+ * Reads OLE compound files (MS-CFB) and maps their MAPI properties (MS-OXMSG)
+ * to the same structure as the EML parser, without external dependencies
+ */
+
+import { Attachment, EmailAddress, ParsedEmail, parseEml } from './eml-parser';
+import { codePageToCharset, decodeBytes } from './charset';
+import { decompressRtf, rtfToBody } from './rtf';
+
+const CFB_SIGNATURE = 'd0cf11e0a1b11ae1';
+
+// Special sector numbers
+const END_OF_CHAIN = 0xFFFFFFFE;
+const FREE_SECTOR = 0xFFFFFFFF;
+const NO_STREAM = 0xFFFFFFFF;
+
+// Directory entry object types
+const STORAGE_OBJECT = 1;
+const STREAM_OBJECT = 2;
+const ROOT_STORAGE_OBJECT = 5;
+
+// MAPI property types
+const PT_LONG = 0x0003;
+const PT_BOOLEAN = 0x000B;
+const PT_SYSTIME = 0x0040;
+const PT_STRING8 = 0x001E;
+const PT_UNICODE = 0x001F;
+const PT_BINARY = 0x0102;
+const PT_OBJECT = 0x000D;
+
+// MAPI property ids
+const PR_SUBJECT = 0x0037;
+const PR_CLIENT_SUBMIT_TIME = 0x0039;
+const PR_SENT_REPRESENTING_NAME = 0x0042;
+const PR_SENT_REPRESENTING_EMAIL_ADDRESS = 0x0065;
+const PR_TRANSPORT_MESSAGE_HEADERS = 0x007D;
+const PR_RECIPIENT_TYPE = 0x0C15;
+const PR_SENDER_NAME = 0x0C1A;
+const PR_SENDER_EMAIL_ADDRESS = 0x0C1F;
+const PR_MESSAGE_DELIVERY_TIME = 0x0E06;
+const PR_MESSAGE_SIZE = 0x0E08;
+const PR_BODY = 0x1000;
+const PR_RTF_COMPRESSED = 0x1009;
+const PR_HTML = 0x1013;
+const PR_INTERNET_MESSAGE_ID = 0x1035;
+const PR_INTERNET_REFERENCES = 0x1039;
+const PR_IN_REPLY_TO_ID = 0x1042;
+const PR_DISPLAY_NAME = 0x3001;
+const PR_EMAIL_ADDRESS = 0x3003;
+const PR_ATTACH_DATA = 0x3701;
+const PR_ATTACH_FILENAME = 0x3704;
+const PR_ATTACH_METHOD = 0x3705;
+const PR_ATTACH_LONG_FILENAME = 0x3707;
+const PR_ATTACH_MIME_TAG = 0x370E;
+const PR_ATTACH_CONTENT_ID = 0x3712;
+const PR_SMTP_ADDRESS = 0x39FE;
+const PR_INTERNET_CPID = 0x3FDE;
+const PR_MESSAGE_CODEPAGE = 0x3FFD;
+const PR_SENDER_SMTP_ADDRESS = 0x5D01;
+
+// Maximum depth of messages embedded in attachments
+const MAX_NESTING_DEPTH = 10;
+
+// Recipient types
+const MAPI_TO = 1;
+const MAPI_CC = 2;
+const MAPI_BCC = 3;
+
+// Attachment method of attached messages (others store OLE objects in PR_ATTACH_DATA)
+const ATTACH_EMBEDDED_MSG = 5;
+
+interface DirectoryEntry {
+	name: string;
+	type: number;
+	left: number;
+	right: number;
+	child: number;
+	startSector: number;
+	size: number;
+}
+
+/**
+ * Minimal reader for OLE compound files
+ */
+class CompoundFile {
+	private data: Buffer;
+	private sectorSize: number;
+	private miniSectorSize: number;
+	private miniStreamCutoff: number;
+	private fat: number[] = [];
+	private miniFat: number[] = [];
+	private miniStream: Buffer;
+	entries: DirectoryEntry[] = [];
+
+	constructor(data: Buffer) {
+		if (data.length < 512 || data.toString('hex', 0, 8) !== CFB_SIGNATURE) {
+			throw new Error('Not an Outlook .msg file (missing compound file signature)');
+		}
+
+		this.data = data;
+		this.sectorSize = 1 << data.readUInt16LE(0x1E);
+		this.miniSectorSize = 1 << data.readUInt16LE(0x20);
+		this.miniStreamCutoff = data.readUInt32LE(0x38);
+
+		this.readFat();
+		this.readDirectory(data.readUInt32LE(0x30));
+		this.miniFat = this.readUInt32Array(this.readChain(data.readUInt32LE(0x3C), this.fat));
+
+		const root = this.entries[0];
+		this.miniStream = root && root.type === ROOT_STORAGE_OBJECT
+			? this.readChain(root.startSector, this.fat).subarray(0, root.size)
+			: Buffer.alloc(0);
+	}
+
+	/**
+	 * Collect the FAT from the sectors listed in the header and the DIFAT chain
+	 */
+	private readFat(): void {
+		const fatSectors: number[] = [];
+		for (let i = 0; i < 109; i++) {
+			const sector = this.data.readUInt32LE(0x4C + i * 4);
+			if (sector !== FREE_SECTOR) {
+				fatSectors.push(sector);
+			}
+		}
+
+		let difatSector = this.data.readUInt32LE(0x44);
+		const perSector = this.sectorSize / 4 - 1;
+		const seen = new Set<number>();
+		while (difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR && !seen.has(difatSector)) {
+			seen.add(difatSector);
+			const sector = this.getSector(difatSector);
+			for (let i = 0; i < perSector; i++) {
+				const fatSector = sector.readUInt32LE(i * 4);
+				if (fatSector !== FREE_SECTOR) {
+					fatSectors.push(fatSector);
+				}
+			}
+			difatSector = sector.readUInt32LE(perSector * 4);
+		}
+
+		for (const fatSector of fatSectors) {
+			this.fat.push(...this.readUInt32Array(this.getSector(fatSector)));
+		}
+	}
+
+	/**
+	 * Read all directory entries
+	 */
+	private readDirectory(firstSector: number): void {
+		const directory = this.readChain(firstSector, this.fat);
+		for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+			const nameLength = directory.readUInt16LE(offset + 0x40);
+			this.entries.push({
+				name: directory.toString('utf16le', offset, offset + Math.max(0, nameLength - 2)),
+				type: directory.readUInt8(offset + 0x42),
+				left: directory.readUInt32LE(offset + 0x44),
+				right: directory.readUInt32LE(offset + 0x48),
+				child: directory.readUInt32LE(offset + 0x4C),
+				startSector: directory.readUInt32LE(offset + 0x74),
+				size: directory.readUInt32LE(offset + 0x78)
+			});
+		}
+	}
+
+	private getSector(sector: number): Buffer {
+		const start = (sector + 1) * this.sectorSize;
+		if (start + this.sectorSize > this.data.length) {
+			// Tolerate a truncated last sector
+			return this.data.subarray(Math.min(start, this.data.length));
+		}
+		return this.data.subarray(start, start + this.sectorSize);
+	}
+
+	private getMiniSector(sector: number): Buffer {
+		const start = sector * this.miniSectorSize;
+		return this.miniStream.subarray(start, start + this.miniSectorSize);
+	}
+
+	private readUInt32Array(buffer: Buffer): number[] {
+		const values: number[] = [];
+		for (let offset = 0; offset + 4 <= buffer.length; offset += 4) {
+			values.push(buffer.readUInt32LE(offset));
+		}
+		return values;
+	}
+
+	/**
+	 * Follow a sector chain and concatenate its sectors
+	 */
+	private readChain(startSector: number, fat: number[], mini = false): Buffer {
+		const sectors: Buffer[] = [];
+		const seen = new Set<number>();
+		let sector = startSector;
+
+		while (sector !== END_OF_CHAIN && sector !== FREE_SECTOR && sector < fat.length && !seen.has(sector)) {
+			seen.add(sector);
+			sectors.push(mini ? this.getMiniSector(sector) : this.getSector(sector));
+			sector = fat[sector];
+		}
+
+		return Buffer.concat(sectors);
+	}
+
+	/**
+	 * Read the content of a stream entry
+	 */
+	readStream(entry: DirectoryEntry): Buffer {
+		if (entry.size === 0) {
+			return Buffer.alloc(0);
+		}
+		const content = entry.size < this.miniStreamCutoff
+			? this.readChain(entry.startSector, this.miniFat, true)
+			: this.readChain(entry.startSector, this.fat);
+		return content.subarray(0, entry.size);
+	}
+
+	/**
+	 * List the direct children of a storage entry
+	 */
+	getChildren(entry: DirectoryEntry): DirectoryEntry[] {
+		const children: DirectoryEntry[] = [];
+		const seen = new Set<number>();
+		const stack = [entry.child];
+
+		// Children form a red-black tree linked through left/right siblings
+		while (stack.length > 0) {
+			const id = stack.pop() as number;
+			if (id === NO_STREAM || id >= this.entries.length || seen.has(id)) continue;
+			seen.add(id);
+			const child = this.entries[id];
+			children.push(child);
+			stack.push(child.left, child.right);
+		}
+
+		return children;
+	}
+}
+
+/**
+ * MAPI properties of one object (message, recipient or attachment)
+ */
+class PropertyBag {
+	private file: CompoundFile;
+	private streams = new Map<string, DirectoryEntry>();
+	private storages = new Map<string, DirectoryEntry>();
+	private fixed = new Map<number, Buffer>();
+	// Charset of 8-bit (PT_STRING8) strings
+	charset: string;
+
+	constructor(file: CompoundFile, storage: DirectoryEntry, headerSize: number, charset = 'windows-1252') {
+		this.file = file;
+		this.charset = charset;
+
+		for (const child of file.getChildren(storage)) {
+			if (child.type === STREAM_OBJECT) {
+				this.streams.set(child.name, child);
+			} else if (child.type === STORAGE_OBJECT) {
+				this.storages.set(child.name, child);
+			}
+		}
+
+		// Fixed-length values are stored inline in the property stream
+		const propertyStream = this.streams.get('__properties_version1.0');
+		if (propertyStream) {
+			const data = file.readStream(propertyStream);
+			for (let offset = headerSize; offset + 16 <= data.length; offset += 16) {
+				const type = data.readUInt16LE(offset);
+				const id = data.readUInt16LE(offset + 2);
+				if (type === PT_LONG || type === PT_BOOLEAN || type === PT_SYSTIME) {
+					this.fixed.set(id, data.subarray(offset + 8, offset + 16));
+				}
+			}
+		}
+	}
+
+	private streamName(id: number, type: number): string {
+		const hex = (n: number) => n.toString(16).toUpperCase().padStart(4, '0');
+		return `__substg1.0_${hex(id)}${hex(type)}`;
+	}
+
+	getString(id: number): string {
+		const unicode = this.streams.get(this.streamName(id, PT_UNICODE));
+		if (unicode) {
+			return this.file.readStream(unicode).toString('utf16le').replace(/\0+$/, '');
+		}
+		const ansi = this.streams.get(this.streamName(id, PT_STRING8));
+		if (ansi) {
+			return decodeBytes(this.file.readStream(ansi), this.charset).replace(/\0+$/, '');
+		}
+		return '';
+	}
+
+	getBinary(id: number): Buffer | null {
+		const stream = this.streams.get(this.streamName(id, PT_BINARY));
+		return stream ? this.file.readStream(stream) : null;
+	}
+
+	getLong(id: number): number | null {
+		const value = this.fixed.get(id);
+		return value ? value.readUInt32LE(0) : null;
+	}
+
+	getDate(id: number): Date | null {
+		const value = this.fixed.get(id);
+		if (!value) return null;
+		// FILETIME: 100-nanosecond intervals since 1601-01-01
+		const filetime = value.readUInt32LE(4) * 0x100000000 + value.readUInt32LE(0);
+		if (filetime === 0) return null;
+		return new Date(filetime / 10000 - 11644473600000);
+	}
+
+	getObject(id: number): DirectoryEntry | null {
+		return this.storages.get(this.streamName(id, PT_OBJECT)) || null;
+	}
+
+	getStorages(prefix: string): DirectoryEntry[] {
+		return Array.from(this.storages.entries())
+			.filter(([name]) => name.startsWith(prefix))
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([, entry]) => entry);
+	}
+}
+
+/**
+ * Pick an SMTP address, ignoring Exchange distinguished names like "/O=ORG/OU=..."
+ */
+function pickAddress(...candidates: string[]): string {
+	for (const candidate of candidates) {
+		if (candidate && candidate.includes('@')) {
+			return candidate.trim();
+		}
+	}
+	return '';
+}
+
+/**
+ * Read a recipient from its storage
+ */
+function parseRecipient(file: CompoundFile, storage: DirectoryEntry, charset: string): { type: number; address: EmailAddress } {
+	const props = new PropertyBag(file, storage, 8, charset);
+	const address = pickAddress(props.getString(PR_SMTP_ADDRESS), props.getString(PR_EMAIL_ADDRESS));
+	const name = props.getString(PR_DISPLAY_NAME);
+	return {
+		type: props.getLong(PR_RECIPIENT_TYPE) || MAPI_TO,
+		address: {
+			name: name && name !== address ? name : '',
+			address: address || name
+		}
+	};
+}
+
+/**
+ * Read an attachment from its storage, skipping embedded OLE objects
+ */
+function parseAttachment(file: CompoundFile, storage: DirectoryEntry, index: number, charset: string): Attachment | null {
+	const props = new PropertyBag(file, storage, 8, charset);
+	const content = props.getBinary(PR_ATTACH_DATA);
+	if (!content) {
+		return null;
+	}
+
+	const filename = props.getString(PR_ATTACH_LONG_FILENAME) ||
+		props.getString(PR_ATTACH_FILENAME) ||
+		props.getString(PR_DISPLAY_NAME) ||
+		`attachment_${index + 1}`;
+	const contentId = props.getString(PR_ATTACH_CONTENT_ID);
+
+	return {
+		filename,
+		contentType: (props.getString(PR_ATTACH_MIME_TAG) || 'application/octet-stream').toLowerCase(),
+		content,
+		contentId: contentId ? contentId.replace(/[<>]/g, '') : undefined
+	};
+}
+
+/**
+ * Parse an Outlook .msg file
+ */
+export function parseMsg(data: Buffer): ParsedEmail {
+	const file = new CompoundFile(data);
+	const result = parseMessageStorage(file, file.entries[0], 32, 0);
+	result.size = result.size || data.length;
+	return result;
+}
+
+/**
+ * Parse the message stored in a storage (the root, or an attachment holding an embedded message)
+ */
+function parseMessageStorage(file: CompoundFile, storage: DirectoryEntry, headerSize: number, depth: number): ParsedEmail {
+	const props = new PropertyBag(file, storage, headerSize);
+	props.charset = codePageToCharset(props.getLong(PR_MESSAGE_CODEPAGE) || 0) || props.charset;
+
+	// Internet headers, when the message went through SMTP, are the most faithful source
+	const transportHeaders = props.getString(PR_TRANSPORT_MESSAGE_HEADERS);
+	const result = parseEml(transportHeaders ? `${transportHeaders.trim()}\r\n\r\n` : '');
+	result.textBody = '';
+	result.htmlBody = '';
+	result.attachments = [];
+	result.attachedMessages = [];
+	result.size = props.getLong(PR_MESSAGE_SIZE) || 0;
+
+	if (!result.subject) {
+		result.subject = props.getString(PR_SUBJECT);
+	}
+
+	if (result.from.length === 0) {
+		const address = pickAddress(
+			props.getString(PR_SENDER_SMTP_ADDRESS),
+			props.getString(PR_SENDER_EMAIL_ADDRESS),
+			props.getString(PR_SENT_REPRESENTING_EMAIL_ADDRESS)
+		);
+		const name = props.getString(PR_SENDER_NAME) || props.getString(PR_SENT_REPRESENTING_NAME);
+		if (address || name) {
+			result.from = [{ name: name !== address ? name : '', address: address || name }];
+		}
+	}
+
+	if (result.to.length === 0 && result.cc.length === 0) {
+		for (const storage of props.getStorages('__recip_version1.0_')) {
+			const recipient = parseRecipient(file, storage, props.charset);
+			if (recipient.type === MAPI_CC) {
+				result.cc.push(recipient.address);
+			} else if (recipient.type === MAPI_BCC) {
+				result.bcc.push(recipient.address);
+			} else {
+				result.to.push(recipient.address);
+			}
+		}
+	}
+
+	if (!result.date || isNaN(result.date.getTime())) {
+		result.date = props.getDate(PR_CLIENT_SUBMIT_TIME) || props.getDate(PR_MESSAGE_DELIVERY_TIME);
+	}
+
+	if (!result.messageId) {
+		result.messageId = props.getString(PR_INTERNET_MESSAGE_ID).replace(/[<>]/g, '');
+	}
+	if (!result.inReplyTo) {
+		result.inReplyTo = props.getString(PR_IN_REPLY_TO_ID).replace(/[<>]/g, '');
+	}
+	if (result.references.length === 0) {
+		const references = props.getString(PR_INTERNET_REFERENCES).match(/<[^<>\s]+>/g) || [];
+		result.references = references.map(id => id.replace(/[<>]/g, ''));
+	}
+
+	// Bodies
+	result.textBody = props.getString(PR_BODY);
+	const html = props.getBinary(PR_HTML);
+	if (html) {
+		// The HTML body is stored as bytes in the internet code page
+		const cpid = props.getLong(PR_INTERNET_CPID);
+		result.htmlBody = decodeBytes(html, cpid ? codePageToCharset(cpid) : '').replace(/\0+$/, '');
+	} else {
+		result.htmlBody = props.getString(PR_HTML);
+	}
+
+	// Messages saved by Outlook often only have an RTF body, which may wrap the original HTML
+	const rtf = props.getBinary(PR_RTF_COMPRESSED);
+	if (rtf && !result.htmlBody) {
+		try {
+			const body = rtfToBody(decompressRtf(rtf));
+			result.htmlBody = body.html;
+			result.textBody = result.textBody || body.text;
+		} catch (e) {
+			console.error('Failed to decode RTF body:', e);
+		}
+	}
+
+	// Attachments and attached messages
+	props.getStorages('__attach_version1.0_').forEach((attachStorage, index) => {
+		const attachProps = new PropertyBag(file, attachStorage, 8);
+		const embedded = attachProps.getObject(PR_ATTACH_DATA);
+		if (embedded && attachProps.getLong(PR_ATTACH_METHOD) === ATTACH_EMBEDDED_MSG && depth < MAX_NESTING_DEPTH) {
+			result.attachedMessages.push(parseMessageStorage(file, embedded, 24, depth + 1));
+			return;
+		}
+
+		const attachment = parseAttachment(file, attachStorage, index, props.charset);
+		if (attachment) {
+			result.attachments.push(attachment);
+		}
+	});
+
+	return result;
+}
@@ -0,0 +1,182 @@
+import { App, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import type EmlToMarkdownPlugin from './main';
+import type { ConversionOptions } from './main';
+import { ParsedEmail, formatEmailAddresses } from './eml-parser';
+import { getSkipReason } from './attachment-filter';
+import { parseTags } from './rules';
+
+/**
+ * Shows what a conversion will write and lets the user adjust it before saving
+ */
+export class ConversionPreviewModal extends Modal {
+	private plugin: EmlToMarkdownPlugin;
+	private file: TFile;
+	private email: ParsedEmail;
+	private folder: string;
+	private noteName: string;
+	private tags = '';
+	private excludedAttachments = new Set<number>();
+	private previewEl: HTMLElement;
+	// Number of the latest preview render, so a slower earlier one does not overwrite it
+	private previewRequest = 0;
+
+	constructor(app: App, plugin: EmlToMarkdownPlugin, file: TFile, email: ParsedEmail, mdPath: string) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+		this.email = email;
+		this.folder = mdPath.includes('/') ? mdPath.substring(0, mdPath.lastIndexOf('/')) : '';
+		this.noteName = mdPath.substring(this.folder ? this.folder.length + 1 : 0).replace(/\.md$/i, '');
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText(`Convert ${this.file.name}`);
+
+		// Parsed headers
+		const headers: [string, string][] = [
+			['From', formatEmailAddresses(this.email.from)],
+			['To', formatEmailAddresses(this.email.to)],
+			['CC', formatEmailAddresses(this.email.cc)],
+			['Date', this.plugin.formatDate(this.email.date)],
+			['Subject', this.email.subject]
+		];
+		const headerList = contentEl.createEl('ul');
+		for (const [label, value] of headers) {
+			if (!value) continue;
+			const item = headerList.createEl('li');
+			item.createEl('strong', { text: `${label}: ` });
+			item.appendText(value);
+		}
+
+		// Target
+		new Setting(contentEl)
+			.setName('File name')
+			.addText(text => text
+				.setValue(this.noteName)
+				.onChange((value) => {
+					this.noteName = value;
+					this.updatePreview();
+				}));
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.addText(text => text
+				.setPlaceholder('Vault root')
+				.setValue(this.folder)
+				.onChange((value) => {
+					this.folder = value;
+					this.updatePreview();
+				}));
+
+		new Setting(contentEl)
+			.setName('Tags')
+			.setDesc('Comma-separated tags added to the note.')
+			.addText(text => text
+				.setPlaceholder('email, project')
+				.setValue(this.tags)
+				.onChange((value) => {
+					this.tags = value;
+					this.updatePreview();
+				}));
+
+		// Attachments to keep
+		if (this.email.attachments.length > 0) {
+			new Setting(contentEl).setName('Attachments').setHeading();
+			const filter = this.plugin.getAttachmentFilter();
+			this.email.attachments.forEach((attachment, index) => {
+				const skipReason = getSkipReason(attachment, filter);
+				new Setting(contentEl)
+					.setName(attachment.filename)
+					.setDesc(`${attachment.contentType}, ${formatSize(attachment.content.length)}` +
+						(skipReason ? ` (not saved: ${skipReason})` : ''))
+					.addToggle(toggle => toggle
+						.setValue(!this.excludedAttachments.has(index))
+						.onChange((value) => {
+							if (value) {
+								this.excludedAttachments.delete(index);
+							} else {
+								this.excludedAttachments.add(index);
+							}
+							this.updatePreview();
+						}));
+			});
+		}
+
+		// Generated note
+		new Setting(contentEl).setName('Note').setHeading();
+		this.previewEl = contentEl.createEl('pre', { cls: 'eml-to-markdown-preview' });
+		this.previewEl.style.maxHeight = '300px';
+		this.previewEl.style.overflow = 'auto';
+		this.previewEl.style.whiteSpace = 'pre-wrap';
+		this.updatePreview();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Convert')
+				.setCta()
+				.onClick(() => this.convert()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Conversion options from the current form values
+	 */
+	private getOptions(): ConversionOptions {
+		const folder = this.folder.trim().replace(/^\/+|\/+$/g, '');
+		const name = this.plugin.sanitizeNoteName(this.noteName);
+		return {
+			notePath: name ? normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`) : undefined,
+			tags: parseTags(this.tags),
+			excludedAttachments: Array.from(this.excludedAttachments)
+		};
+	}
+
+	/**
+	 * Regenerate the note preview
+	 */
+	private async updatePreview(): Promise<void> {
+		const options = this.getOptions();
+		const request = ++this.previewRequest;
+		let text: string;
+		try {
+			text = await this.plugin.previewMarkdown(this.file, this.email, options.notePath || 'Untitled.md', options);
+		} catch (error) {
+			text = `Preview failed: ${(error as Error).message}`;
+		}
+		if (request === this.previewRequest) {
+			this.previewEl.setText(text);
+		}
+	}
+
+	private async convert(): Promise<void> {
+		const options = this.getOptions();
+		if (!options.notePath) {
+			new Notice('Enter a file name');
+			return;
+		}
+		if (this.app.vault.getAbstractFileByPath(options.notePath)) {
+			new Notice(`A note already exists at ${options.notePath}`);
+			return;
+		}
+
+		this.close();
+		await this.plugin.convertEmlFile(this.file, options);
+	}
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
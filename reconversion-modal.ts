@@ -0,0 +1,164 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import type EmlToMarkdownPlugin from './main';
+import type { Reconversion } from './main';
+import { USER_NOTES_MARKER } from './template';
+
+/**
+ * Lists what re-converting email notes would change and overwrites them once confirmed
+ */
+export class ReconversionModal extends Modal {
+	private plugin: EmlToMarkdownPlugin;
+	private results: Reconversion[];
+	// Notes without the user notes marker that the user chose to overwrite anyway
+	private overwritten = new Set<Reconversion>();
+
+	constructor(app: App, plugin: EmlToMarkdownPlugin, results: Reconversion[]) {
+		super(app);
+		this.plugin = plugin;
+		this.results = results;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Re-convert email notes');
+
+		const changed = this.results.filter(result => result.content !== null && result.content !== result.oldContent);
+		const unchanged = this.results.filter(result => result.content !== null && result.content === result.oldContent);
+		const missing = this.results.filter(result => !result.source && !result.error);
+		const failed = this.results.filter(result => result.error);
+
+		// Without the marker the whole note is replaced, losing edits made anywhere in it
+		const protectedChanges = changed.filter(result => result.oldContent.includes(USER_NOTES_MARKER));
+		const unprotectedChanges = changed.filter(result => !result.oldContent.includes(USER_NOTES_MARKER));
+
+		contentEl.createEl('p', {
+			text: `${protectedChanges.length} to update, ${unprotectedChanges.length} to replace entirely, ` +
+				`${unchanged.length} unchanged, ` +
+				`${missing.length} without source email, ${failed.length} failed.`
+		});
+
+		if (protectedChanges.length > 0) {
+			new Setting(contentEl).setName('Changes').setHeading();
+			const list = this.createList();
+			for (const result of protectedChanges) {
+				const { added, removed } = countChangedLines(result.oldContent, result.content || '');
+				const item = list.createEl('li');
+				item.createEl('strong', { text: result.note.path });
+				item.appendText(` (+${added} −${removed} lines, from ${result.source?.path})`);
+			}
+		}
+
+		let updateButton: ButtonComponent | null = null;
+		const updateButtonText = () => {
+			updateButton?.setButtonText(`Update ${protectedChanges.length + this.overwritten.size} note(s)`)
+				.setDisabled(protectedChanges.length + this.overwritten.size === 0);
+		};
+
+		if (unprotectedChanges.length > 0) {
+			new Setting(contentEl)
+				.setName('Notes without a user notes section')
+				.setDesc(`These notes have no "${USER_NOTES_MARKER}" line, so they are replaced entirely ` +
+					'and anything written in them is lost. They are only updated if turned on below.')
+				.setHeading();
+			for (const result of unprotectedChanges) {
+				const { added, removed } = countChangedLines(result.oldContent, result.content || '');
+				new Setting(contentEl)
+					.setName(result.note.path)
+					.setDesc(`+${added} −${removed} lines, from ${result.source?.path}`)
+					.addToggle(toggle => toggle
+						.setTooltip('Overwrite this note')
+						.setValue(false)
+						.onChange((value) => {
+							if (value) {
+								this.overwritten.add(result);
+							} else {
+								this.overwritten.delete(result);
+							}
+							updateButtonText();
+						}));
+
+				const removedLines = getRemovedLines(result.oldContent, result.content || '');
+				if (removedLines.length > 0) {
+					const details = contentEl.createEl('details');
+					details.createEl('summary', { text: `${removedLines.length} line(s) that would be removed` });
+					const pre = details.createEl('pre', { text: removedLines.join('\n') });
+					pre.style.maxHeight = '200px';
+					pre.style.overflow = 'auto';
+					pre.style.whiteSpace = 'pre-wrap';
+				}
+			}
+		}
+
+		if (missing.length > 0) {
+			new Setting(contentEl)
+				.setName('Source email not found')
+				.setDesc('These notes neither link to an .eml or .msg file nor share a message id with one in the vault.')
+				.setHeading();
+			const list = this.createList();
+			missing.forEach(result => list.createEl('li', { text: result.note.path }));
+		}
+
+		if (failed.length > 0) {
+			new Setting(contentEl).setName('Failed').setHeading();
+			const list = this.createList();
+			failed.forEach(result => list.createEl('li', { text: `${result.note.path}: ${result.error}` }));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => {
+				updateButton = button
+					.setCta()
+					.onClick(async () => {
+						this.close();
+						await this.plugin.applyReconversion(
+							changed.filter(result => protectedChanges.includes(result) || this.overwritten.has(result)));
+					});
+				updateButtonText();
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private createList(): HTMLElement {
+		const list = this.contentEl.createEl('ul');
+		list.style.maxHeight = '200px';
+		list.style.overflow = 'auto';
+		return list;
+	}
+}
+
+/**
+ * Count lines only in the new text (added) and only in the old text (removed)
+ */
+function countChangedLines(oldText: string, newText: string): { added: number; removed: number } {
+	const removed = getRemovedLines(oldText, newText).length;
+	const added = getRemovedLines(newText, oldText).length;
+	return { added, removed };
+}
+
+/**
+ * Get the lines of the old text that the new text does not have, in order
+ */
+function getRemovedLines(oldText: string, newText: string): string[] {
+	const counts = new Map<string, number>();
+	for (const line of newText.split('\n')) {
+		counts.set(line, (counts.get(line) || 0) + 1);
+	}
+
+	const removed: string[] = [];
+	for (const line of oldText.split('\n')) {
+		const count = counts.get(line) || 0;
+		if (count > 0) {
+			counts.set(line, count - 1);
+		} else {
+			removed.push(line);
+		}
+	}
+	return removed;
+}
@@ -0,0 +1,246 @@
+/**
+ * Detection of quoted reply history and signatures in email bodies
+ */
+
+export interface SplitBody {
+	body: string;
+	signature: string;
+	quoted: string;
+}
+
+export interface SplitHtmlBody {
+	html: string;
+	signatureHtml: string;
+	quotedHtml: string;
+}
+
+// Attribution lines introducing quoted history ("On <date>, <name> wrote:" and translations)
+const ATTRIBUTION_PATTERNS = [
+	/^On\b.+\bwrote:$/i,
+	/^Am\b.+\bschrieb\b.*:$/i,
+	/^Le\b.+\ba écrit\s?:$/i,
+	/^El\b.+\bescribió:$/i,
+	/^Il giorno\b.+\bha scritto:$/i,
+	/^Op\b.+\bschreef\b.*:$/i,
+	/^Em\b.+\bescreveu:$/i
+];
+
+// Separators placed by clients above the original message
+const ORIGINAL_MESSAGE_PATTERNS = [
+	/^-{2,}\s*(Original Message|Ursprüngliche Nachricht|Message d'origine|Mensaje original|Messaggio originale)\s*-{2,}$/i,
+	/^_{10,}$/
+];
+
+// Banner placed by clients above a forwarded message, which is content rather than quoted history
+// (matched at the start only, as HTML text runs on into the forwarded headers)
+const FORWARDED_MESSAGE_PATTERN = /^(-{2,}\s*(Forwarded message|Weitergeleitete Nachricht|Message transféré|Mensaje reenviado|Messaggio inoltrato|Doorgestuurd bericht|Mensagem encaminhada)\s*-{2,}|Begin forwarded message:)/i;
+
+// Header block of Outlook-style quoted messages
+const QUOTED_HEADER_FROM = /^(\*\*)?(From|Von|De|Da|Van):(\*\*)?\s/i;
+const QUOTED_HEADER_FIELDS = /^(\*\*)?(Sent|Date|To|Subject|Gesendet|Datum|An|Betreff|Envoyé|Objet|Enviado|Asunto|Inviato|Oggetto):(\*\*)?\s/i;
+
+// Lines starting a signature or legal disclaimer
+const SIGNATURE_PATTERNS = [
+	/^-- ?$/,
+	/^Sent from my \w+/i,
+	/^Get Outlook for \w+/i,
+	/^(CONFIDENTIALITY NOTICE|DISCLAIMER|PRIVILEGED AND CONFIDENTIAL)\b/i,
+	/^This (e-?mail|message)( and any (files|attachments)| \(including any attachments\))? (transmitted with it )?(is|are|contains?|may contain)\b.*\bconfidential/i,
+	/^The information (contained )?in this (e-?mail|message)\b/i
+];
+
+// HTML containers of quoted history and signatures used by common clients
+const QUOTE_SELECTORS = [
+	'div.gmail_quote',
+	'blockquote[type="cite"]',
+	'#divRplyFwdMsg',
+	'#appendonsend',
+	'div.moz-cite-prefix',
+	'div.yahoo_quoted',
+	'div.OutlookMessageHeader'
+];
+const SIGNATURE_SELECTORS = ['.gmail_signature', '#Signature', '.moz-signature', '#signature'];
+
+function isAttribution(line: string): boolean {
+	return ATTRIBUTION_PATTERNS.some(pattern => pattern.test(line));
+}
+
+function isForwardBanner(line: string): boolean {
+	return FORWARDED_MESSAGE_PATTERN.test(line);
+}
+
+/**
+ * Check if only blank lines, separators and forward banners come before a line,
+ * i.e. the message starts with it and nothing was written above it
+ */
+function startsMessage(lines: string[], index: number): boolean {
+	return lines.slice(0, index).every(line => {
+		const trimmed = line.trim();
+		return !trimmed || /^(-{3,}|_{10,})$/.test(trimmed) || isForwardBanner(trimmed);
+	});
+}
+
+/**
+ * Find the line where quoted history starts, or -1
+ */
+function findQuoteStart(lines: string[]): number {
+	// The message being forwarded, below its banner
+	let forwarded = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (!line) continue;
+
+		if (isForwardBanner(line)) {
+			forwarded = true;
+			continue;
+		}
+
+		// Attribution lines are sometimes wrapped onto a second line
+		const joined = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line;
+		if ((isAttribution(line) || (/^On\b/i.test(line) && isAttribution(joined))) && !startsMessage(lines, i)) {
+			return i;
+		}
+
+		if (ORIGINAL_MESSAGE_PATTERNS.some(pattern => pattern.test(line)) && !startsMessage(lines, i)) {
+			return i;
+		}
+
+		// "From: ..." followed closely by other header fields, unless it is the header of
+		// a forwarded message or begins the message
+		if (QUOTED_HEADER_FROM.test(line)) {
+			const following = lines.slice(i + 1, i + 5).filter(next => QUOTED_HEADER_FIELDS.test(next.trim()));
+			if (following.length >= 2) {
+				if (forwarded || startsMessage(lines, i)) {
+					forwarded = false;
+					continue;
+				}
+				// Include a horizontal rule placed right above the header block
+				let start = i;
+				while (start > 0 && /^(---+|\s*)$/.test(lines[start - 1].trim())) {
+					start--;
+				}
+				return lines[start].trim() === '---' ? start : i;
+			}
+		}
+	}
+
+	// A trailing block of "> " lines
+	let start = lines.length;
+	for (let i = lines.length - 1; i >= 0; i--) {
+		const line = lines[i].trim();
+		if (line.startsWith('>')) {
+			start = i;
+		} else if (line) {
+			break;
+		}
+	}
+	if (start < lines.length) {
+		// Include the attribution line above the quote
+		let previous = start - 1;
+		while (previous >= 0 && !lines[previous].trim()) previous--;
+		return previous >= 0 && isAttribution(lines[previous].trim()) ? previous : start;
+	}
+
+	return -1;
+}
+
+/**
+ * Find the line where the signature starts, or -1
+ */
+function findSignatureStart(lines: string[]): number {
+	for (let i = 1; i < lines.length; i++) {
+		const line = lines[i].replace(/\s+$/, '');
+		if (SIGNATURE_PATTERNS.some(pattern => pattern.test(line === '-- ' ? line : line.trim()))) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function joinLines(lines: string[]): string {
+	return lines.join('\n').replace(/^\s*\n/, '').trim();
+}
+
+/**
+ * Split a plain text or Markdown body into the new content, its signature and quoted history
+ */
+export function splitReplyText(text: string): SplitBody {
+	const lines = text.split(/\r?\n/);
+
+	const quoteStart = findQuoteStart(lines);
+	const contentLines = quoteStart === -1 ? lines : lines.slice(0, quoteStart);
+	const quotedLines = quoteStart === -1 ? [] : lines.slice(quoteStart);
+
+	const signatureStart = findSignatureStart(contentLines);
+	const bodyLines = signatureStart === -1 ? contentLines : contentLines.slice(0, signatureStart);
+	const signatureLines = signatureStart === -1 ? [] : contentLines.slice(signatureStart);
+
+	// Keep the body when everything looks quoted (e.g. a forward without comment)
+	if (!joinLines(bodyLines)) {
+		return { body: text.trim(), signature: '', quoted: '' };
+	}
+
+	return {
+		body: joinLines(bodyLines),
+		signature: joinLines(signatureLines.filter((line, index) => index > 0 || line.trim() !== '--')),
+		quoted: joinLines(quotedLines)
+	};
+}
+
+/**
+ * Serialize a node range (from a node to the end of the document) and remove it
+ */
+function extractToEnd(doc: Document, start: Element): string {
+	const range = doc.createRange();
+	range.setStartBefore(start);
+	range.setEndAfter(doc.body.lastChild as Node);
+	const container = doc.createElement('div');
+	container.appendChild(range.extractContents());
+	return container.innerHTML;
+}
+
+/**
+ * Find the first element in document order matching any selector
+ */
+function findFirst(doc: Document, selectors: string[]): Element | null {
+	let first: Element | null = null;
+	for (const selector of selectors) {
+		const element = doc.body.querySelector(selector);
+		if (element && (!first || (first.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_PRECEDING))) {
+			first = element;
+		}
+	}
+	return first;
+}
+
+/**
+ * Split an HTML body using the quote and signature containers of common clients
+ */
+export function splitReplyHtml(html: string): SplitHtmlBody {
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	if (!doc.body || !doc.body.lastChild) {
+		return { html, signatureHtml: '', quotedHtml: '' };
+	}
+
+	let quotedHtml = '';
+	const quote = findFirst(doc, QUOTE_SELECTORS);
+	// Gmail puts forwarded messages in a quote container too, below their banner
+	if (quote && !isForwardBanner((quote.textContent || '').trim())) {
+		quotedHtml = extractToEnd(doc, quote);
+	}
+
+	let signatureHtml = '';
+	const signature = findFirst(doc, SIGNATURE_SELECTORS);
+	if (signature) {
+		signatureHtml = signature.outerHTML;
+		signature.remove();
+	}
+
+	// Keep the body when everything looks quoted (e.g. a forward without comment)
+	if (!(doc.body.textContent || '').trim() && !doc.body.querySelector('img')) {
+		return { html, signatureHtml: '', quotedHtml: '' };
+	}
+
+	return { html: doc.body.innerHTML, signatureHtml, quotedHtml };
+}
@@ -0,0 +1,229 @@
+/**
+ * Compressed RTF (MS-OXRTFCP) and RTF body de-encapsulation (MS-OXRTFEX)
+ * Outlook stores bodies as compressed RTF, which often wraps the original HTML or plain text
+ */
+
+import { codePageToCharset, decodeBytes } from './charset';
+
+const COMPRESSED = 0x75465A4C; // "LZFu"
+const UNCOMPRESSED = 0x414C454D; // "MELA"
+
+// Initial contents of the LZFu dictionary
+const RTF_PREBUF =
+	'{\\rtf1\\ansi\\mac\\deff0\\deftab720{\\fonttbl;}{\\f0\\fnil \\froman \\fswiss \\fmodern \\fscript \\fdecor MS Sans SerifSymbolArialTimes New RomanCourier{\\colortbl\\red0\\green0\\blue0\r\n\\par \\pard\\plain\\f0\\fs20\\b\\i\\u\\tab\\tx';
+
+// Destinations whose content is never part of the body
+const SKIPPED_DESTINATIONS = new Set([
+	'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'footer', 'headerl', 'headerr',
+	'footerl', 'footerr', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'themedata',
+	'colorschememapping', 'latentstyles', 'datastore', 'fldinst', 'filetbl', 'revtbl', 'pgdsctbl', 'mhtmltag'
+]);
+
+// Control words that stand for a character
+const SYMBOLS: Record<string, string> = {
+	par: '\n', line: '\n', sect: '\n', row: '\n', tab: '\t', cell: '\t',
+	lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+	bullet: '•', endash: '–', emdash: '—', enspace: ' ', emspace: ' '
+};
+
+export interface RtfBody {
+	html: string;
+	text: string;
+}
+
+interface GroupState {
+	// Inside a destination that is not part of the body
+	skip: boolean;
+	// Inside \htmlrtf ... \htmlrtf0 (RTF-only formatting of encapsulated HTML)
+	htmlrtf: boolean;
+	// Number of fallback characters following \uN
+	unicodeSkip: number;
+}
+
+/**
+ * Decompress a PR_RTF_COMPRESSED value into RTF bytes
+ */
+export function decompressRtf(data: Buffer): Buffer {
+	if (data.length < 16) {
+		throw new Error('Compressed RTF is too short');
+	}
+
+	const compressedSize = data.readUInt32LE(0);
+	const rawSize = data.readUInt32LE(4);
+	const type = data.readUInt32LE(8);
+	const end = Math.min(data.length, compressedSize + 4);
+
+	if (type === UNCOMPRESSED) {
+		return data.subarray(16, Math.min(data.length, 16 + rawSize));
+	}
+	if (type !== COMPRESSED) {
+		throw new Error('Unknown compressed RTF type');
+	}
+
+	const dictionary = Buffer.alloc(4096);
+	dictionary.write(RTF_PREBUF, 'latin1');
+	let writePosition = RTF_PREBUF.length;
+
+	const output = Buffer.alloc(rawSize);
+	let outputLength = 0;
+	let offset = 16;
+
+	while (offset < end) {
+		const control = data[offset++];
+		for (let bit = 0; bit < 8 && offset < end; bit++) {
+			if (control & (1 << bit)) {
+				// Reference to the dictionary: 12-bit offset, 4-bit length
+				if (offset + 1 >= end) return output.subarray(0, outputLength);
+				const reference = data.readUInt16BE(offset);
+				offset += 2;
+				const readPosition = reference >> 4;
+				const length = (reference & 0xF) + 2;
+				if (readPosition === writePosition) {
+					return output.subarray(0, outputLength);
+				}
+				for (let i = 0; i < length; i++) {
+					const byte = dictionary[(readPosition + i) % 4096];
+					dictionary[writePosition] = byte;
+					writePosition = (writePosition + 1) % 4096;
+					if (outputLength < rawSize) output[outputLength++] = byte;
+				}
+			} else {
+				const byte = data[offset++];
+				dictionary[writePosition] = byte;
+				writePosition = (writePosition + 1) % 4096;
+				if (outputLength < rawSize) output[outputLength++] = byte;
+			}
+		}
+	}
+
+	return output.subarray(0, outputLength);
+}
+
+/**
+ * Extract the body from RTF: the encapsulated HTML (\fromhtml1), or plain text otherwise
+ */
+export function rtfToBody(rtf: Buffer): RtfBody {
+	const source = rtf.toString('latin1');
+	const isHtml = /\\fromhtml1/.test(source.substring(0, 1024));
+
+	let charset = 'windows-1252';
+	let output = '';
+	let pendingBytes: number[] = [];
+	const flushBytes = () => {
+		if (pendingBytes.length > 0) {
+			output += decodeBytes(Buffer.from(pendingBytes), charset);
+			pendingBytes = [];
+		}
+	};
+	const emit = (state: GroupState, text: string) => {
+		if (state.skip || (isHtml && state.htmlrtf)) return;
+		flushBytes();
+		output += text;
+	};
+
+	const stack: GroupState[] = [];
+	let state: GroupState = { skip: false, htmlrtf: false, unicodeSkip: 1 };
+	let pendingSkip = 0;
+	let i = 0;
+
+	while (i < source.length) {
+		const char = source[i];
+
+		if (char === '{') {
+			stack.push(state);
+			state = { ...state };
+			pendingSkip = 0;
+			i++;
+			continue;
+		}
+		if (char === '}') {
+			state = stack.pop() || state;
+			pendingSkip = 0;
+			i++;
+			continue;
+		}
+		if (char === '\r' || char === '\n') {
+			i++;
+			continue;
+		}
+
+		if (char !== '\\') {
+			if (pendingSkip > 0) {
+				pendingSkip--;
+			} else {
+				emit(state, char);
+			}
+			i++;
+			continue;
+		}
+
+		// Control symbol or control word
+		const next = source[i + 1];
+		if (next === undefined) break;
+
+		if (next === '\'') {
+			const byte = parseInt(source.substring(i + 2, i + 4), 16);
+			i += 4;
+			if (pendingSkip > 0) {
+				pendingSkip--;
+			} else if (!isNaN(byte) && !state.skip && !(isHtml && state.htmlrtf)) {
+				pendingBytes.push(byte);
+			}
+			continue;
+		}
+
+		if (!/[a-zA-Z]/.test(next)) {
+			i += 2;
+			if (next === '*') {
+				// Ignorable destination, unless it holds encapsulated HTML
+				const word = source.substring(i).match(/^\\([a-zA-Z]+)/);
+				if (!word || (word[1] !== 'htmltag' || !isHtml)) {
+					state.skip = true;
+				}
+			} else if (next === '~') {
+				emit(state, ' ');
+			} else if (next === '_') {
+				emit(state, '-');
+			} else if (next === '\\' || next === '{' || next === '}') {
+				emit(state, next);
+			}
+			continue;
+		}
+
+		const match = source.substring(i, i + 64).match(/^\\([a-zA-Z]+)(-?\d+)? ?/);
+		if (!match) {
+			i++;
+			continue;
+		}
+		i += match[0].length;
+		const word = match[1];
+		const param = match[2] !== undefined ? parseInt(match[2], 10) : null;
+
+		if (SKIPPED_DESTINATIONS.has(word)) {
+			state.skip = true;
+		} else if (word === 'htmltag') {
+			state.skip = !isHtml;
+			state.htmlrtf = false;
+		} else if (word === 'htmlrtf') {
+			state.htmlrtf = param !== 0;
+		} else if (word === 'ansicpg' && param !== null) {
+			charset = codePageToCharset(param) || charset;
+		} else if (word === 'uc' && param !== null) {
+			state.unicodeSkip = param;
+		} else if (word === 'u' && param !== null) {
+			emit(state, String.fromCharCode(param < 0 ? param + 65536 : param));
+			pendingSkip = state.unicodeSkip;
+		} else if (word in SYMBOLS) {
+			// In encapsulated HTML, \par outside of HTML tags is RTF-only layout
+			if (!isHtml || !state.htmlrtf) {
+				emit(state, isHtml && word === 'par' ? '\r\n' : SYMBOLS[word]);
+			}
+		}
+	}
+	flushBytes();
+
+	if (isHtml) {
+		return { html: output, text: '' };
+	}
+	return { html: '', text: output.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim() };
+}
@@ -0,0 +1,148 @@
+/**
+ * Rules classifying emails: conditions on the message, and the folder, tags
+ * and frontmatter properties they give the notes of matching emails
+ */
+
+import { matchesFilterList, parseFilterList } from './attachment-filter';
+import { ParsedEmail, htmlToPlainText } from './eml-parser';
+import type { Rule, RuleCondition } from './settings';
+
+/**
+ * What the matching rules give the note of an email
+ */
+export interface RuleActions {
+	// Folder of the first matching rule that has one
+	folder: string | null;
+	tags: string[];
+	properties: Record<string, string>;
+}
+
+/**
+ * Get the domain part of an email address
+ */
+export function getDomain(address: string): string {
+	const at = address.lastIndexOf('@');
+	return at === -1 ? '' : address.substring(at + 1).toLowerCase();
+}
+
+/**
+ * Match an address against a pattern with * wildcards (case-insensitive)
+ */
+function matchesAddress(address: string, pattern: string): boolean {
+	const regex = new RegExp(
+		'^' + pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$',
+		'i'
+	);
+	return regex.test(address);
+}
+
+/**
+ * Check if an email matches a rule condition
+ * The lowercase body text is only built for body conditions
+ */
+export function matchesCondition(email: ParsedEmail, condition: RuleCondition, getBody: () => string): boolean {
+	const pattern = condition.pattern.trim();
+	if (!pattern) return false;
+
+	switch (condition.field) {
+		case 'sender-domain': {
+			const domain = pattern.toLowerCase().replace(/^@/, '');
+			return email.from.some(addr => {
+				const senderDomain = getDomain(addr.address);
+				return senderDomain === domain || senderDomain.endsWith(`.${domain}`);
+			});
+		}
+		case 'sender':
+			return email.from.some(addr => matchesAddress(addr.address, pattern));
+		case 'recipient':
+			return [...email.to, ...email.cc, ...email.bcc].some(addr => matchesAddress(addr.address, pattern));
+		case 'subject':
+			try {
+				return new RegExp(pattern, 'i').test(email.subject);
+			} catch (e) {
+				// Invalid regex never matches
+				return false;
+			}
+		case 'body': {
+			// Any of the comma-separated keywords
+			const body = getBody();
+			return parseTags(pattern).some(keyword => body.includes(keyword.toLowerCase()));
+		}
+		case 'attachment-type': {
+			const entries = parseFilterList(pattern);
+			return email.attachments.some(attachment => matchesFilterList(attachment, entries));
+		}
+		case 'list-id':
+			return !!email.listId && email.listId.toLowerCase() === pattern.toLowerCase().replace(/^<|>$/g, '');
+		default:
+			return false;
+	}
+}
+
+/**
+ * Check if an email matches all (or any, depending on the rule) conditions of a rule
+ */
+export function matchesRule(email: ParsedEmail, rule: Rule, getBody: () => string): boolean {
+	if (rule.conditions.length === 0) return false;
+	return rule.match === 'any'
+		? rule.conditions.some(condition => matchesCondition(email, condition, getBody))
+		: rule.conditions.every(condition => matchesCondition(email, condition, getBody));
+}
+
+/**
+ * Collect the folder, tags and properties of the rules matching an email
+ * The first matching rule decides the folder and wins when rules set the same property
+ */
+export function applyRules(email: ParsedEmail, rules: Rule[]): RuleActions {
+	const actions: RuleActions = { folder: null, tags: [], properties: {} };
+
+	let body: string | null = null;
+	const getBody = () => {
+		if (body === null) {
+			body = (email.textBody || htmlToPlainText(email.htmlBody)).toLowerCase();
+		}
+		return body;
+	};
+
+	for (const rule of rules) {
+		if (!matchesRule(email, rule, getBody)) continue;
+
+		if (rule.folder && actions.folder === null) {
+			actions.folder = rule.folder;
+		}
+		for (const tag of parseTags(rule.tags)) {
+			if (!actions.tags.includes(tag)) {
+				actions.tags.push(tag);
+			}
+		}
+		const properties = parseProperties(rule.properties);
+		for (const key of Object.keys(properties)) {
+			if (!(key in actions.properties)) {
+				actions.properties[key] = properties[key];
+			}
+		}
+	}
+
+	return actions;
+}
+
+/**
+ * Split a comma-separated tag list, dropping leading "#"
+ */
+export function parseTags(value: string): string[] {
+	return value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(tag => tag);
+}
+
+/**
+ * Parse "key: value" lines into properties
+ */
+export function parseProperties(value: string): Record<string, string> {
+	const properties: Record<string, string> = {};
+	for (const line of value.split('\n')) {
+		const match = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+		if (match && match[2]) {
+			properties[match[1]] = match[2];
+		}
+	}
+	return properties;
+}
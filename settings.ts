@@ -1,29 +1,157 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type EmlToMarkdownPlugin from './main';
+import { DEFAULT_TEMPLATE } from './template';
 
 export type EmlHandling = 'keep' | 'delete' | 'move-to-attachments';
 export type AttachmentListPosition = 'top' | 'bottom' | 'both';
+export type AttachedMessageHandling = 'inline' | 'separate-notes';
+export type QuoteHandling = 'keep' | 'strip' | 'collapse';
+export type DuplicateHandling = 'skip' | 'merge' | 'allow';
+export type RuleField = 'sender-domain' | 'sender' | 'recipient' | 'subject' | 'body' | 'attachment-type' | 'list-id';
+export type ImapSecurity = 'tls' | 'starttls' | 'none';
+export type FrontmatterField = 'participants' | 'thread' | 'list-id' | 'attachments' | 'size' | 'event' | 'tags';
+
+export interface RuleCondition {
+	field: RuleField;
+	// Domain, address (with * wildcards), subject regex, comma-separated keywords,
+	// attachment types or list id, depending on the field
+	pattern: string;
+}
+
+export interface Rule {
+	name: string;
+	// Whether all conditions or any of them have to match
+	match: 'all' | 'any';
+	conditions: RuleCondition[];
+	// Target folder, may contain template values like {{date:YYYY}}
+	folder: string;
+	// Comma-separated tags added to matching notes
+	tags: string;
+	// Frontmatter properties added to matching notes, one "key: value" per line
+	properties: string;
+}
+
+// Rule condition fields, with their names and pattern placeholders
+const RULE_FIELDS: { field: RuleField; name: string; placeholder: string }[] = [
+	{ field: 'sender-domain', name: 'Sender domain', placeholder: 'example.com' },
+	{ field: 'sender', name: 'Sender address', placeholder: '*@example.com' },
+	{ field: 'recipient', name: 'Recipient address', placeholder: 'me+lists@example.com' },
+	{ field: 'subject', name: 'Subject (regex)', placeholder: 'invoice|receipt' },
+	{ field: 'body', name: 'Body keywords', placeholder: 'unsubscribe, newsletter' },
+	{ field: 'attachment-type', name: 'Attachment type', placeholder: 'pdf, image/*' },
+	{ field: 'list-id', name: 'List-Id', placeholder: 'dev.lists.example.com' }
+];
+
+// Optional frontmatter properties, with their setting names and descriptions
+const FRONTMATTER_FIELDS: { field: FrontmatterField; name: string; desc: string }[] = [
+	{ field: 'participants', name: 'Participants', desc: 'from, to, cc, bcc and reply_to as lists of names and addresses, participants as a list of all addresses, contacts as links.' },
+	{ field: 'thread', name: 'Thread', desc: 'thread_id, the message id of the first message of the conversation. Always written while thread index notes are created.' },
+	{ field: 'list-id', name: 'Mailing list', desc: 'list_id of mailing list messages.' },
+	{ field: 'attachments', name: 'Attachments', desc: 'has_attachments and attachments, a list of links to the saved files.' },
+	{ field: 'size', name: 'Size', desc: 'size of the email file in bytes.' },
+	{ field: 'event', name: 'Meeting invitation', desc: 'event_title, event_start, event_end, event_location and event_method.' },
+	{ field: 'tags', name: 'Tags', desc: 'tags from the setting below, the rules and the conversion preview.' }
+];
 
 export interface EmlToMarkdownSettings {
 	autoConvert: boolean;
+	previewManualConversion: boolean;
 	emlHandling: EmlHandling;
 	linkMovedEml: boolean;
+	duplicateHandling: DuplicateHandling;
 	useFrontmatter: boolean;
+	frontmatterFields: FrontmatterField[];
+	frontmatterTags: string;
 	dateFormat: string;
 	showHeadersInBody: boolean;
 	attachmentListPosition: AttachmentListPosition;
+	deduplicateAttachments: boolean;
+	sharedAttachmentFolder: string;
+	minAttachmentSize: number;
+	maxAttachmentSize: number;
+	attachmentAllowList: string;
+	attachmentDenyList: string;
+	minInlineImageSize: number;
+	listSkippedAttachments: boolean;
+	attachedMessageHandling: AttachedMessageHandling;
+	quoteHandling: QuoteHandling;
+	linkThreads: boolean;
+	createThreadIndex: boolean;
+	threadIndexFolder: string;
+	createContactNotes: boolean;
+	contactFolder: string;
+	createEventNotes: boolean;
+	eventFolder: string;
+	customTemplate: string;
+	templateFile: string;
+	fileNamePattern: string;
+	rules: Rule[];
+	imapHost: string;
+	imapPort: number;
+	imapSecurity: ImapSecurity;
+	imapUser: string;
+	imapPassword: string;
+	imapFolders: string;
+	imapNoteFolder: string;
+	maildirPath: string;
+	maildirScanInterval: number;
+	maildirNoteFolder: string;
 }
 
 export const DEFAULT_SETTINGS: EmlToMarkdownSettings = {
 	autoConvert: true,
+	previewManualConversion: true,
 	emlHandling: 'move-to-attachments',
 	linkMovedEml: true,
+	duplicateHandling: 'skip',
 	useFrontmatter: true,
+	frontmatterFields: ['participants', 'thread', 'list-id', 'attachments', 'size', 'event', 'tags'],
+	frontmatterTags: '',
 	dateFormat: 'YYYY-MM-DD HH:mm',
 	showHeadersInBody: true,
-	attachmentListPosition: 'both'
+	attachmentListPosition: 'both',
+	deduplicateAttachments: true,
+	sharedAttachmentFolder: '',
+	// KB
+	minAttachmentSize: 0,
+	// MB
+	maxAttachmentSize: 500,
+	attachmentAllowList: '',
+	attachmentDenyList: '',
+	// Pixels; skips 1x1 tracking images
+	minInlineImageSize: 2,
+	listSkippedAttachments: false,
+	attachedMessageHandling: 'inline',
+	quoteHandling: 'keep',
+	linkThreads: true,
+	createThreadIndex: true,
+	threadIndexFolder: '',
+	createContactNotes: false,
+	contactFolder: 'People',
+	createEventNotes: false,
+	eventFolder: 'Events',
+	customTemplate: '',
+	templateFile: '',
+	fileNamePattern: '{{basename}}',
+	rules: [],
+	imapHost: '',
+	imapPort: 993,
+	imapSecurity: 'tls',
+	imapUser: '',
+	imapPassword: '',
+	// Comma-separated
+	imapFolders: 'INBOX',
+	imapNoteFolder: 'Mail',
+	maildirPath: '',
+	// Minutes; 0 scans only with the command
+	maildirScanInterval: 0,
+	maildirNoteFolder: 'Mail'
 };
 
+// Default IMAP ports, with and without TLS from the start
+const IMAP_TLS_PORT = 993;
+const IMAP_PORT = 143;
+
 export class EmlToMarkdownSettingTab extends PluginSettingTab {
 	plugin: EmlToMarkdownPlugin;
 
@@ -39,7 +167,7 @@ export class EmlToMarkdownSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Auto-convert')
-			.setDesc('Automatically convert .eml files when they are added to the vault.')
+			.setDesc('Automatically convert .eml, .msg and .mbox files when they are added to the vault.')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.autoConvert)
 				.onChange(async (value) => {
@@ -47,9 +175,19 @@ export class EmlToMarkdownSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Preview manual conversions')
+			.setDesc('Review the note, its name, folder, tags and attachments before the convert command writes anything.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewManualConversion)
+				.onChange(async (value) => {
+					this.plugin.settings.previewManualConversion = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('EML file handling')
-			.setDesc('What to do with the original .eml file after conversion.')
+			.setDesc('What to do with the original .eml, .msg or .mbox file after conversion.')
 			.addDropdown(dropdown => dropdown
 				.addOption('keep', 'Keep in place')
 				.addOption('delete', 'Delete')
@@ -73,6 +211,20 @@ export class EmlToMarkdownSettingTab extends PluginSettingTab {
 					}));
 		}
 
+		new Setting(containerEl)
+			.setName('Duplicate emails')
+			.setDesc('What to do with an email whose message id already has a note, e.g. the same message exported by two recipients. ' +
+				'Merging records the recipient and the extra file in the existing note. Requires frontmatter.')
+			.addDropdown(dropdown => dropdown
+				.addOption('skip', 'Skip')
+				.addOption('merge', 'Merge into the existing note')
+				.addOption('allow', 'Create another note')
+				.setValue(this.plugin.settings.duplicateHandling)
+				.onChange(async (value: DuplicateHandling) => {
+					this.plugin.settings.duplicateHandling = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Use frontmatter')
 			.setDesc('Include email metadata as YAML frontmatter in the generated Markdown file.')
@@ -81,6 +233,7 @@ export class EmlToMarkdownSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.useFrontmatter = value;
 					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide frontmatter fields
 				}));
 
 		new Setting(containerEl)
@@ -106,6 +259,136 @@ export class EmlToMarkdownSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Deduplicate attachments')
+			.setDesc('Store identical attachments once and link every note to the same file.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.deduplicateAttachments)
+				.onChange(async (value) => {
+					this.plugin.settings.deduplicateAttachments = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Shared attachment folder')
+			.setDesc('Folder holding the attachments of all emails under their original names. ' +
+				'Leave empty to use the vault attachment folder with names prefixed by the note name.')
+			.addText(text => text
+				.setPlaceholder('Email/Attachments')
+				.setValue(this.plugin.settings.sharedAttachmentFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.sharedAttachmentFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Attached messages')
+			.setDesc('How to render emails that were forwarded as attachments.')
+			.addDropdown(dropdown => dropdown
+				.addOption('inline', 'Collapsible section in the note')
+				.addOption('separate-notes', 'Separate linked notes')
+				.setValue(this.plugin.settings.attachedMessageHandling)
+				.onChange(async (value: AttachedMessageHandling) => {
+					this.plugin.settings.attachedMessageHandling = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Quoted text and signatures')
+			.setDesc('How to handle quoted reply history, signatures and legal disclaimers in the message body.')
+			.addDropdown(dropdown => dropdown
+				.addOption('keep', 'Keep as is')
+				.addOption('collapse', 'Fold into collapsed callouts')
+				.addOption('strip', 'Remove')
+				.setValue(this.plugin.settings.quoteHandling)
+				.onChange(async (value: QuoteHandling) => {
+					this.plugin.settings.quoteHandling = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link replies to parent')
+			.setDesc('Link each converted reply to the note of the message it replies to. Requires frontmatter.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.linkThreads)
+				.onChange(async (value) => {
+					this.plugin.settings.linkThreads = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Create thread index notes')
+			.setDesc('Create and update a note listing every message of a conversation in date order. Requires frontmatter.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.createThreadIndex)
+				.onChange(async (value) => {
+					this.plugin.settings.createThreadIndex = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide folder option
+				}));
+
+		if (this.plugin.settings.createThreadIndex) {
+			new Setting(containerEl)
+				.setName('Thread index folder')
+				.setDesc('Folder for thread index notes. Leave empty to place them next to the first converted message.')
+				.addText(text => text
+					.setPlaceholder('Email/Threads')
+					.setValue(this.plugin.settings.threadIndexFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.threadIndexFolder = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Contact notes')
+			.setDesc('Create a note per sender and recipient and link participants to it. ' +
+				'List more addresses under the "emails" property of a contact note to merge them into one person.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.createContactNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.createContactNotes = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide folder option
+				}));
+
+		if (this.plugin.settings.createContactNotes) {
+			new Setting(containerEl)
+				.setName('Contact folder')
+				.setDesc('Folder for contact notes.')
+				.addText(text => text
+					.setPlaceholder('People')
+					.setValue(this.plugin.settings.contactFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.contactFolder = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Event notes')
+			.setDesc('Create a note per meeting invitation, updated by later changes and cancellations of the same event.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.createEventNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.createEventNotes = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide folder option
+				}));
+
+		if (this.plugin.settings.createEventNotes) {
+			new Setting(containerEl)
+				.setName('Event folder')
+				.setDesc('Folder for event notes.')
+				.addText(text => text
+					.setPlaceholder('Events')
+					.setValue(this.plugin.settings.eventFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.eventFolder = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		new Setting(containerEl)
 			.setName('Date format')
 			.setDesc('Format for displaying dates. Use YYYY for year, MM for month, DD for day, HH for hour, mm for minute.')
@@ -116,5 +399,442 @@ export class EmlToMarkdownSettingTab extends PluginSettingTab {
 					this.plugin.settings.dateFormat = value || DEFAULT_SETTINGS.dateFormat;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl).setName('Attachment filters').setHeading();
+
+		new Setting(containerEl)
+			.setName('Minimum size (KB)')
+			.setDesc('Attachments smaller than this are not saved. 0 saves all.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.minAttachmentSize))
+				.onChange(async (value) => {
+					const size = parseFloat(value);
+					this.plugin.settings.minAttachmentSize = isNaN(size) || size < 0 ? 0 : size;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum size (MB)')
+			.setDesc('Attachments larger than this are not saved. 0 for no limit.')
+			.addText(text => text
+				.setPlaceholder('500')
+				.setValue(String(this.plugin.settings.maxAttachmentSize))
+				.onChange(async (value) => {
+					const size = parseFloat(value);
+					this.plugin.settings.maxAttachmentSize = isNaN(size) || size < 0 ? DEFAULT_SETTINGS.maxAttachmentSize : size;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Allowed types')
+			.setDesc('Comma-separated MIME types (image/*, application/pdf) and extensions (pdf, docx). Leave empty to allow all.')
+			.addText(text => text
+				.setPlaceholder('image/*, pdf')
+				.setValue(this.plugin.settings.attachmentAllowList)
+				.onChange(async (value) => {
+					this.plugin.settings.attachmentAllowList = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Blocked types')
+			.setDesc('Comma-separated MIME types and extensions that are never saved.')
+			.addText(text => text
+				.setPlaceholder('text/calendar, dat')
+				.setValue(this.plugin.settings.attachmentDenyList)
+				.onChange(async (value) => {
+					this.plugin.settings.attachmentDenyList = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Minimum inline image size (pixels)')
+			.setDesc('Inline images narrower or lower than this are not saved, which drops tracking pixels. 0 saves all.')
+			.addText(text => text
+				.setPlaceholder('2')
+				.setValue(String(this.plugin.settings.minInlineImageSize))
+				.onChange(async (value) => {
+					const size = parseInt(value, 10);
+					this.plugin.settings.minInlineImageSize = isNaN(size) || size < 0 ? 0 : size;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('List skipped attachments')
+			.setDesc('Keep attachments that were not saved in the attachment list of the note.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.listSkippedAttachments)
+				.onChange(async (value) => {
+					this.plugin.settings.listSkippedAttachments = value;
+					await this.plugin.saveSettings();
+				}));
+
+		if (this.plugin.settings.useFrontmatter) {
+			new Setting(containerEl).setName('Frontmatter').setHeading();
+
+			for (const { field, name, desc } of FRONTMATTER_FIELDS) {
+				new Setting(containerEl)
+					.setName(name)
+					.setDesc(desc)
+					.addToggle(toggle => toggle
+						.setValue(this.plugin.settings.frontmatterFields.includes(field))
+						.onChange(async (value) => {
+							const fields = this.plugin.settings.frontmatterFields.filter(item => item !== field);
+							this.plugin.settings.frontmatterFields = value ? [...fields, field] : fields;
+							await this.plugin.saveSettings();
+						}));
+			}
+
+			new Setting(containerEl)
+				.setName('Tags for every note')
+				.setDesc('Comma-separated tags added to all email notes.')
+				.addText(text => text
+					.setPlaceholder('email')
+					.setValue(this.plugin.settings.frontmatterTags)
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterTags = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl).setName('File names and folders').setHeading();
+
+		new Setting(containerEl)
+			.setName('Note name pattern')
+			.setDesc('Name of generated notes. Use {{basename}} (name of the email file), {{subject}}, {{subject|slug}}, ' +
+				'{{date:YYYY-MM-DD}}, {{sender.name}}, {{sender.address}}, {{sender.domain}} and {{hash}} (short message-id hash).')
+			.addText(text => text
+				.setPlaceholder('{{date:YYYY-MM-DD}} {{subject}}')
+				.setValue(this.plugin.settings.fileNamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.fileNamePattern = value.trim() || DEFAULT_SETTINGS.fileNamePattern;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl).setName('Rules').setHeading();
+
+		new Setting(containerEl)
+			.setDesc('Classify emails by sender, recipients, subject, body keywords, attachment types or mailing list. ' +
+				'Every matching rule adds its tags and properties to the note. Notes go to the folder of the first ' +
+				'matching rule with a folder, or next to the email file when none matches.')
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					this.plugin.settings.rules.push({
+						name: '',
+						match: 'all',
+						conditions: [{ field: 'sender-domain', pattern: '' }],
+						folder: '',
+						tags: '',
+						properties: ''
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		this.plugin.settings.rules.forEach((rule, index) => this.displayRule(containerEl, rule, index));
+
+		new Setting(containerEl).setName('Note template').setHeading();
+
+		new Setting(containerEl)
+			.setName('Template note')
+			.setDesc('Path of a note in the vault to use as template. Overrides the template below when set.')
+			.addText(text => text
+				.setPlaceholder('Templates/Email.md')
+				.setValue(this.plugin.settings.templateFile)
+				.onChange(async (value) => {
+					this.plugin.settings.templateFile = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Template')
+			.setDesc('Template for generated notes. Use {{frontmatter}} (the properties chosen above), {{subject}}, {{from.name}}, {{to}}, ' +
+				'{{date:YYYY-MM-DD}}, {{body}}, {{#each attachments}}{{embed}}{{/each}} and {{#if x}}...{{/if}}. Leave empty for the default layout.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder(DEFAULT_TEMPLATE)
+					.setValue(this.plugin.settings.customTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.customTemplate = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 12;
+				text.inputEl.cols = 50;
+			})
+			.addExtraButton(button => button
+				.setIcon('reset')
+				.setTooltip('Start from the default template')
+				.onClick(async () => {
+					this.plugin.settings.customTemplate = DEFAULT_TEMPLATE;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl).setName('Mailbox sync').setHeading();
+
+		new Setting(containerEl)
+			.setName('IMAP server')
+			.setDesc('Host name of the mail server the "Sync mailbox" command imports new messages from.')
+			.addText(text => text
+				.setPlaceholder('imap.example.com')
+				.setValue(this.plugin.settings.imapHost)
+				.onChange(async (value) => {
+					this.plugin.settings.imapHost = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Security')
+			.addDropdown(dropdown => dropdown
+				.addOption('tls', 'TLS')
+				.addOption('starttls', 'STARTTLS')
+				.addOption('none', 'None (local test servers only)')
+				.setValue(this.plugin.settings.imapSecurity)
+				.onChange(async (value: ImapSecurity) => {
+					const settings = this.plugin.settings;
+					// Follow the default port of the new security setting
+					if (value === 'tls' && settings.imapPort === IMAP_PORT) {
+						settings.imapPort = IMAP_TLS_PORT;
+					} else if (value !== 'tls' && settings.imapPort === IMAP_TLS_PORT) {
+						settings.imapPort = IMAP_PORT;
+					}
+					settings.imapSecurity = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Port')
+			.addText(text => text
+				.setPlaceholder(String(IMAP_TLS_PORT))
+				.setValue(String(this.plugin.settings.imapPort))
+				.onChange(async (value) => {
+					const port = parseInt(value, 10);
+					if (!isNaN(port) && port > 0 && port < 65536) {
+						this.plugin.settings.imapPort = port;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Username')
+			.addText(text => text
+				.setValue(this.plugin.settings.imapUser)
+				.onChange(async (value) => {
+					this.plugin.settings.imapUser = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Password')
+			.setDesc('Stored unencrypted in the plugin data of this vault. Prefer an app password where the provider offers one.')
+			.addText(text => {
+				text
+					.setValue(this.plugin.settings.imapPassword)
+					.onChange(async (value) => {
+						this.plugin.settings.imapPassword = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = 'password';
+			});
+
+		const foldersSetting = new Setting(containerEl)
+			.setName('Folders')
+			.setDesc('Comma-separated IMAP folders to import. Only messages added since the last sync are fetched.')
+			.addText(text => text
+				.setPlaceholder('INBOX, Archive')
+				.setValue(this.plugin.settings.imapFolders)
+				.onChange(async (value) => {
+					this.plugin.settings.imapFolders = value;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('List folders')
+				.onClick(async () => {
+					button.setDisabled(true);
+					try {
+						const folders = await this.plugin.listMailboxFolders();
+						foldersSetting.setDesc(`Folders on the server: ${folders.join(', ') || 'none'}`);
+					} catch (error) {
+						foldersSetting.setDesc(`Could not connect: ${(error as Error).message}`);
+					} finally {
+						button.setDisabled(false);
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Note folder')
+			.setDesc('Folder of the notes of synced messages, unless a rule gives another one.')
+			.addText(text => text
+				.setPlaceholder('Mail')
+				.setValue(this.plugin.settings.imapNoteFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.imapNoteFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl).setName('Maildir').setHeading();
+
+		new Setting(containerEl)
+			.setName('Maildir path')
+			.setDesc('Folder outside the vault with cur/ and new/ directories, e.g. kept by offlineimap or mbsync. ' +
+				'Subfolders are imported too. Files are only read, never moved.')
+			.addText(text => text
+				.setPlaceholder('~/Mail')
+				.setValue(this.plugin.settings.maildirPath)
+				.onChange(async (value) => {
+					this.plugin.settings.maildirPath = value.trim();
+					await this.plugin.saveSettings();
+					this.plugin.scheduleMaildirScan();
+				}));
+
+		new Setting(containerEl)
+			.setName('Scan interval')
+			.setDesc('Minutes between scans for new messages. 0 scans only with the "Import new messages from Maildir" command.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.maildirScanInterval))
+				.onChange(async (value) => {
+					const minutes = parseInt(value, 10);
+					if (!isNaN(minutes) && minutes >= 0) {
+						this.plugin.settings.maildirScanInterval = minutes;
+						await this.plugin.saveSettings();
+						this.plugin.scheduleMaildirScan();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Maildir note folder')
+			.setDesc('Folder of the notes of imported Maildir messages, unless a rule gives another one.')
+			.addText(text => text
+				.setPlaceholder('Mail')
+				.setValue(this.plugin.settings.maildirNoteFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.maildirNoteFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
+	 * Show the settings of one rule: name, conditions and what it adds to matching notes
+	 */
+	private displayRule(containerEl: HTMLElement, rule: Rule, index: number): void {
+		const rules = this.plugin.settings.rules;
+		const ruleEl = containerEl.createDiv({ cls: 'eml-to-markdown-rule' });
+
+		new Setting(ruleEl)
+			.setName(`Rule ${index + 1}`)
+			.addText(text => text
+				.setPlaceholder('Name')
+				.setValue(rule.name)
+				.onChange(async (value) => {
+					rule.name = value;
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('all', 'All conditions')
+				.addOption('any', 'Any condition')
+				.setValue(rule.match)
+				.onChange(async (value: 'all' | 'any') => {
+					rule.match = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon('arrow-up')
+				.setTooltip('Move up')
+				.setDisabled(index === 0)
+				.onClick(async () => {
+					if (index === 0) return;
+					[rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete rule')
+				.onClick(async () => {
+					rules.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		rule.conditions.forEach((condition, conditionIndex) => {
+			const placeholder = () => RULE_FIELDS.find(field => field.field === condition.field)?.placeholder || '';
+			new Setting(ruleEl)
+				.setDesc(conditionIndex === 0 ? 'When' : rule.match === 'any' ? 'or' : 'and')
+				.addDropdown(dropdown => {
+					RULE_FIELDS.forEach(field => dropdown.addOption(field.field, field.name));
+					dropdown
+						.setValue(condition.field)
+						.onChange(async (value: RuleField) => {
+							condition.field = value;
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				})
+				.addText(text => text
+					.setPlaceholder(placeholder())
+					.setValue(condition.pattern)
+					.onChange(async (value) => {
+						condition.pattern = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('cross')
+					.setTooltip('Delete condition')
+					.onClick(async () => {
+						rule.conditions.splice(conditionIndex, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(ruleEl)
+			.addButton(button => button
+				.setButtonText('Add condition')
+				.onClick(async () => {
+					rule.conditions.push({ field: 'subject', pattern: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(ruleEl)
+			.setName('Folder')
+			.setDesc('Target folder of matching notes. Supports {{date:YYYY}} and the other note name values.')
+			.addText(text => text
+				.setPlaceholder('Mail/Invoices')
+				.setValue(rule.folder)
+				.onChange(async (value) => {
+					rule.folder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(ruleEl)
+			.setName('Tags')
+			.setDesc('Comma-separated tags added to matching notes.')
+			.addText(text => text
+				.setPlaceholder('finance, invoice')
+				.setValue(rule.tags)
+				.onChange(async (value) => {
+					rule.tags = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(ruleEl)
+			.setName('Properties')
+			.setDesc('Frontmatter properties added to matching notes, one "key: value" per line.')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('category: finance')
+					.setValue(rule.properties)
+					.onChange(async (value) => {
+						rule.properties = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
 	}
 }
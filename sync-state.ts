@@ -0,0 +1,95 @@
+/**
+ * Persistent state of mailbox syncs: the last UID imported from each IMAP folder
+ * and the Maildir messages imported before
+ * UIDs only stay meaningful while the folder keeps its UIDVALIDITY
+ */
+
+import { DataAdapter } from 'obsidian';
+
+export interface FolderSyncState {
+	uidValidity: number;
+	lastUid: number;
+}
+
+export class SyncState {
+	private adapter: DataAdapter;
+	private path: string;
+	// "user@host:port/folder" -> state
+	private folders = new Map<string, FolderSyncState>();
+	// Maildir root -> keys of the imported messages
+	private maildirMessages = new Map<string, Set<string>>();
+	private dirty = false;
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = path;
+	}
+
+	/**
+	 * Load the state from disk, starting empty if it is missing or unreadable
+	 */
+	async load(): Promise<void> {
+		this.folders.clear();
+		this.maildirMessages.clear();
+		try {
+			if (!(await this.adapter.exists(this.path))) return;
+			const data = JSON.parse(await this.adapter.read(this.path));
+			for (const [key, state] of Object.entries(data.folders || {})) {
+				const { uidValidity, lastUid } = state as Partial<FolderSyncState>;
+				if (typeof uidValidity === 'number' && typeof lastUid === 'number') {
+					this.folders.set(key, { uidValidity, lastUid });
+				}
+			}
+			for (const [root, keys] of Object.entries(data.maildirMessages || {})) {
+				if (Array.isArray(keys)) {
+					this.maildirMessages.set(root, new Set(keys.filter((key): key is string => typeof key === 'string')));
+				}
+			}
+		} catch (error) {
+			console.error('Failed to load mailbox sync state:', error);
+		}
+	}
+
+	/**
+	 * Write the state to disk if it changed
+	 */
+	async save(): Promise<void> {
+		if (!this.dirty) return;
+		const folders: Record<string, FolderSyncState> = {};
+		this.folders.forEach((state, key) => {
+			folders[key] = state;
+		});
+		const maildirMessages: Record<string, string[]> = {};
+		this.maildirMessages.forEach((keys, root) => {
+			maildirMessages[root] = Array.from(keys);
+		});
+		await this.adapter.write(this.path, JSON.stringify({ version: 1, folders, maildirMessages }, null, '\t'));
+		this.dirty = false;
+	}
+
+	get(key: string): FolderSyncState | undefined {
+		return this.folders.get(key);
+	}
+
+	set(key: string, state: FolderSyncState): void {
+		const current = this.folders.get(key);
+		if (current && current.uidValidity === state.uidValidity && current.lastUid === state.lastUid) return;
+		this.folders.set(key, state);
+		this.dirty = true;
+	}
+
+	/**
+	 * Check if a Maildir message was imported before
+	 */
+	hasMaildirMessage(root: string, key: string): boolean {
+		return this.maildirMessages.get(root)?.has(key) || false;
+	}
+
+	addMaildirMessage(root: string, key: string): void {
+		const keys = this.maildirMessages.get(root) || new Set<string>();
+		if (keys.has(key)) return;
+		keys.add(key);
+		this.maildirMessages.set(root, keys);
+		this.dirty = true;
+	}
+}
@@ -0,0 +1,368 @@
+/**
+ * Minimal template engine for email notes
+ *
+ * Syntax:
+ *   {{subject}}              value (nested: {{from.name}}, current item: {{this}}, index: {{@index}}, {{@number}})
+ *   {{date:YYYY-MM-DD}}      date with a format ("iso" for ISO 8601)
+ *   {{subject|yaml}}         filters: yaml, lower, upper, trim, slug
+ *   {{#if x}}..{{else}}..{{/if}}, {{#unless x}}..{{/unless}}, {{#each list}}..{{else}}..{{/each}}
+ *
+ * Lists render as comma-separated values, objects as their `text` field.
+ * Lines holding only a block tag are removed from the output.
+ */
+
+export type TemplateValue =
+	| string
+	| number
+	| boolean
+	| Date
+	| null
+	| undefined
+	| TemplateValue[]
+	| { [key: string]: TemplateValue };
+
+export type TemplateContext = { [key: string]: TemplateValue };
+
+export interface TemplateOptions {
+	formatDate: (date: Date, format?: string) => string;
+}
+
+type TemplateNode =
+	| { type: 'text'; value: string }
+	| { type: 'value'; expression: string }
+	| { type: 'block'; kind: 'if' | 'unless' | 'each'; expression: string; children: TemplateNode[]; inverse: TemplateNode[] };
+
+interface Scope {
+	context: TemplateContext;
+	item: TemplateValue;
+	index: number;
+	parent: Scope | null;
+}
+
+/**
+ * Marks the end of the generated note: text below it is kept when a note is re-converted
+ */
+export const USER_NOTES_MARKER = '%% Notes below this line are kept when the note is re-converted %%';
+
+/**
+ * Default template, reproducing the built-in note layout
+ */
+export const DEFAULT_TEMPLATE = `{{#if useFrontmatter}}
+---
+{{frontmatter}}
+---
+
+{{/if}}
+# {{title}}
+
+{{#if showHeaders}}
+{{#if from}}
+**From:** {{senders}}
+{{/if}}
+{{#if to}}
+**To:** {{to}}
+{{/if}}
+{{#if cc}}
+**CC:** {{cc}}
+{{/if}}
+{{#if date}}
+**Date:** {{date}}
+{{/if}}
+{{#if parentLink}}
+**In reply to:** [[{{parentLink}}]]
+{{/if}}
+{{#if original}}
+**Original:** [[{{original}}]]
+{{/if}}
+
+---
+
+{{/if}}
+{{#if attachmentsTop}}
+### Attachments
+
+{{#each attachments}}
+- {{embed}}
+{{/each}}
+
+---
+
+{{/if}}
+{{#if calendar}}
+{{calendar}}
+
+{{/if}}
+{{#if body}}
+{{body}}
+
+{{/if}}
+{{#if attachedMessages}}
+### Attached messages
+
+{{attachedMessages}}
+
+{{/if}}
+{{#if attachmentsBottom}}
+---
+
+### Attachments
+
+{{#each attachments}}
+- {{embed}}
+{{/each}}
+
+{{/if}}
+${USER_NOTES_MARKER}
+`;
+
+const TAG_PATTERN = /{{\s*([^}]*?)\s*}}/g;
+
+// Lines that hold nothing but a block tag
+const STANDALONE_PATTERN = /^[ \t]*({{\s*(?:[#/](?:if|unless|each)\b[^}]*|else)\s*}})[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * Parse a template into a tree of nodes
+ */
+function parseTemplate(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const stack: { node: TemplateNode & { type: 'block' }; inElse: boolean }[] = [];
+	const current = (): TemplateNode[] => {
+		const top = stack[stack.length - 1];
+		if (!top) return root;
+		return top.inElse ? top.node.inverse : top.node.children;
+	};
+
+	const source = template.replace(STANDALONE_PATTERN, '$1');
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+	TAG_PATTERN.lastIndex = 0;
+
+	while ((match = TAG_PATTERN.exec(source)) !== null) {
+		if (match.index > lastIndex) {
+			current().push({ type: 'text', value: source.substring(lastIndex, match.index) });
+		}
+		lastIndex = match.index + match[0].length;
+
+		const tag = match[1];
+		const open = tag.match(/^#(if|unless|each)\s+(.+)$/);
+		const close = tag.match(/^\/(if|unless|each)$/);
+
+		if (open) {
+			const node: TemplateNode & { type: 'block' } = {
+				type: 'block',
+				kind: open[1] as 'if' | 'unless' | 'each',
+				expression: open[2].trim(),
+				children: [],
+				inverse: []
+			};
+			current().push(node);
+			stack.push({ node, inElse: false });
+		} else if (close) {
+			const top = stack.pop();
+			if (!top || top.node.kind !== close[1]) {
+				throw new Error(`Template error: unexpected {{/${close[1]}}}`);
+			}
+		} else if (tag === 'else') {
+			const top = stack[stack.length - 1];
+			if (!top) {
+				throw new Error('Template error: {{else}} outside of a block');
+			}
+			top.inElse = true;
+		} else {
+			current().push({ type: 'value', expression: tag });
+		}
+	}
+
+	if (lastIndex < source.length) {
+		current().push({ type: 'text', value: source.substring(lastIndex) });
+	}
+
+	if (stack.length > 0) {
+		throw new Error(`Template error: unclosed {{#${stack[stack.length - 1].node.kind}}}`);
+	}
+
+	return root;
+}
+
+/**
+ * Resolve a dotted path like "from.name" against the current scope
+ */
+function resolve(path: string, scope: Scope): TemplateValue {
+	if (path === 'this' || path === '.') return scope.item;
+	if (path === '@index') return scope.index;
+	if (path === '@number') return scope.index + 1;
+
+	let parts = path.split('.');
+	let value: TemplateValue;
+
+	if (parts[0] === 'this') {
+		value = scope.item;
+		parts = parts.slice(1);
+	} else {
+		// Look up the first segment in the current item, then in enclosing scopes
+		let lookup: Scope | null = scope;
+		value = undefined;
+		while (lookup) {
+			const item = lookup.item;
+			if (isObject(item) && parts[0] in item) {
+				value = item[parts[0]];
+				break;
+			}
+			if (!lookup.parent && parts[0] in lookup.context) {
+				value = lookup.context[parts[0]];
+				break;
+			}
+			lookup = lookup.parent;
+		}
+		parts = parts.slice(1);
+	}
+
+	for (const part of parts) {
+		value = isObject(value) ? value[part] : undefined;
+	}
+	return value;
+}
+
+function isObject(value: TemplateValue): value is { [key: string]: TemplateValue } {
+	return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	if (value instanceof Date) return !isNaN(value.getTime());
+	return !!value;
+}
+
+/**
+ * Convert a value to text
+ */
+function stringify(value: TemplateValue, options: TemplateOptions, format?: string): string {
+	if (value === null || value === undefined) return '';
+	if (value instanceof Date) {
+		if (isNaN(value.getTime())) return '';
+		return format === 'iso' ? value.toISOString() : options.formatDate(value, format);
+	}
+	if (Array.isArray(value)) {
+		return value.map(item => stringify(item, options, format)).filter(text => text).join(', ');
+	}
+	if (isObject(value)) {
+		return stringify(value.text, options, format);
+	}
+	return String(value);
+}
+
+/**
+ * Apply a filter to rendered text
+ */
+function applyFilter(text: string, filter: string): string {
+	switch (filter) {
+		case 'yaml':
+			return text
+				.replace(/\\/g, '\\\\')
+				.replace(/"/g, '\\"')
+				.replace(/\n/g, '\\n');
+		case 'lower':
+			return text.toLowerCase();
+		case 'upper':
+			return text.toUpperCase();
+		case 'trim':
+			return text.trim();
+		case 'slug':
+			return text
+				.toLowerCase()
+				.normalize('NFKD')
+				.replace(/[\u0300-\u036f]/g, '')
+				.replace(/[^\p{L}\p{N}]+/gu, '-')
+				.replace(/^-+|-+$/g, '');
+		default:
+			throw new Error(`Template error: unknown filter "${filter}"`);
+	}
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope, options: TemplateOptions): string {
+	let output = '';
+
+	for (const node of nodes) {
+		if (node.type === 'text') {
+			output += node.value;
+		} else if (node.type === 'value') {
+			const [expression, ...filters] = node.expression.split('|').map(part => part.trim());
+			const colonIndex = expression.indexOf(':');
+			const path = colonIndex === -1 ? expression : expression.substring(0, colonIndex).trim();
+			const format = colonIndex === -1 ? undefined : expression.substring(colonIndex + 1).trim();
+
+			let text = stringify(resolve(path, scope), options, format);
+			for (const filter of filters) {
+				text = applyFilter(text, filter);
+			}
+			output += text;
+		} else {
+			const value = resolve(node.expression, scope);
+			if (node.kind === 'each') {
+				const items = Array.isArray(value) ? value : (isTruthy(value) ? [value] : []);
+				if (items.length === 0) {
+					output += renderNodes(node.inverse, scope, options);
+				}
+				items.forEach((item, index) => {
+					output += renderNodes(node.children, { context: scope.context, item, index, parent: scope }, options);
+				});
+			} else {
+				const condition = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+				output += renderNodes(condition ? node.children : node.inverse, scope, options);
+			}
+		}
+	}
+
+	return output;
+}
+
+/**
+ * Render a template with the given context
+ */
+export function renderTemplate(template: string, context: TemplateContext, options: TemplateOptions): string {
+	const nodes = parseTemplate(template);
+	return renderNodes(nodes, { context, item: null, index: 0, parent: null }, options);
+}
+
+// Lines of the header block that the default template writes below the title
+const HEADER_LINE_PATTERN = /^\*\*(From|To|CC|Date|In reply to|Original):\*\*/;
+
+/**
+ * Take the message body out of a note (without its frontmatter): drops the title, the header
+ * block and the attachment sections the default layout adds around it, the user notes and comments
+ */
+export function extractMessageBody(markdown: string): string {
+	const markerIndex = markdown.indexOf(USER_NOTES_MARKER);
+	const lines = (markerIndex >= 0 ? markdown.substring(0, markerIndex) : markdown).split(/\r?\n/);
+	const nextLine = (index: number): number => {
+		while (index < lines.length && !lines[index].trim()) index++;
+		return index;
+	};
+	const lineAt = (index: number): string => (lines[index] || '').trim();
+
+	let start = nextLine(0);
+	if (/^#\s/.test(lineAt(start))) {
+		start = nextLine(start + 1);
+	}
+	if (HEADER_LINE_PATTERN.test(lineAt(start))) {
+		while (HEADER_LINE_PATTERN.test(lineAt(start))) start++;
+		start = nextLine(start);
+		if (lineAt(start) === '---') start = nextLine(start + 1);
+	}
+	if (lineAt(start) === '### Attachments') {
+		let rule = start + 1;
+		while (rule < lines.length && lineAt(rule) !== '---') rule++;
+		if (rule < lines.length) start = nextLine(rule + 1);
+	}
+
+	let end = start;
+	while (end < lines.length) {
+		const line = lineAt(end);
+		if (line === '### Attached messages' || (line === '---' && lineAt(nextLine(end + 1)) === '### Attachments')) break;
+		end++;
+	}
+
+	return lines.slice(start, end).join('\n')
+		.replace(/%%[\s\S]*?%%\n?/g, '')
+		.trim();
+}
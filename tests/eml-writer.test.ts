@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+
+import { parseEml } from '../eml-parser';
+import { OutgoingEmail, buildEml } from '../eml-writer';
+
+function draft(overrides: Partial<OutgoingEmail> = {}): OutgoingEmail {
+	return {
+		from: [{ name: 'Anna Smith', address: 'anna@example.com' }],
+		to: [{ name: '', address: 'tom@example.com' }],
+		cc: [],
+		bcc: [],
+		replyTo: [],
+		subject: 'Agenda',
+		date: new Date('2024-03-04T09:12:00Z'),
+		messageId: 'abc@example.com',
+		inReplyTo: '',
+		references: [],
+		textBody: 'Hi Tom',
+		htmlBody: '',
+		attachments: [],
+		draft: true,
+		...overrides
+	};
+}
+
+describe('buildEml', () => {
+	it('writes a message the parser reads back', () => {
+		const email = parseEml(buildEml(draft()));
+		expect(email.subject).toBe('Agenda');
+		expect(email.textBody.trim()).toBe('Hi Tom');
+	});
+
+	it.each([
+		['the subject', { subject: 'Agenda\r\nBcc: eve@example.com' }],
+		['a name', { to: [{ name: 'Tom\nBcc: eve@example.com', address: 'tom@example.com' }] }],
+		['an address', { cc: [{ name: '', address: 'tom@example.com\r\nX-Evil: 1' }] }],
+		['the message id', { messageId: 'abc@example.com>\nBcc: eve@example.com' }],
+		['the parent id', { inReplyTo: 'parent@example.com\rX-Evil: 1' }],
+		['a reference', { references: ['root@example.com\nX-Evil: 1'] }]
+	])('rejects a line break in %s', (_, overrides: Partial<OutgoingEmail>) => {
+		expect(() => buildEml(draft(overrides))).toThrow(/Line break/);
+	});
+});
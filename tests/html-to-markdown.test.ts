@@ -0,0 +1,135 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { htmlToMarkdown } from '../html-to-markdown';
+
+function readFixture(name: string): string {
+	return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+describe('htmlToMarkdown', () => {
+	describe('real-world emails', () => {
+		it.each(['newsletter', 'outlook'])('converts %s.html', name => {
+			expect(htmlToMarkdown(readFixture(`${name}.html`))).toBe(readFixture(`${name}.md`).trim());
+		});
+	});
+
+	describe('lists', () => {
+		it('numbers ordered lists from their start attribute', () => {
+			expect(htmlToMarkdown('<ol start="7"><li>seven</li><li>eight</li></ol>')).toBe('7. seven\n8. eight');
+		});
+
+		it('falls back to 1 for an invalid start attribute', () => {
+			expect(htmlToMarkdown('<ol start="x"><li>one</li><li>two</li></ol>')).toBe('1. one\n2. two');
+		});
+
+		it('indents nested lists under their item', () => {
+			const html = '<ul><li>fruit<ol><li>apple</li><li>pear<ul><li>green</li></ul></li></ol></li><li>bread</li></ul>';
+			expect(htmlToMarkdown(html)).toBe([
+				'- fruit',
+				'  1. apple',
+				'  2. pear',
+				'     - green',
+				'- bread'
+			].join('\n'));
+		});
+
+		it('attaches lists nested directly in a list to the previous item', () => {
+			expect(htmlToMarkdown('<ul><li>parent</li><ul><li>child</li></ul></ul>')).toBe('- parent\n  - child');
+		});
+
+		it('keeps paragraphs of an item on indented lines', () => {
+			expect(htmlToMarkdown('<ol><li><p>first</p><p>second</p></li></ol>')).toBe('1. first\n   second');
+		});
+
+		it('skips hidden items without using up a number', () => {
+			expect(htmlToMarkdown('<ol><li>a</li><li style="display: none">x</li><li>b</li></ol>')).toBe('1. a\n2. b');
+		});
+	});
+
+	describe('tables', () => {
+		it('takes the header row from thead', () => {
+			const html = '<table><thead><tr><th>Name</th><th>Qty</th></tr></thead>' +
+				'<tbody><tr><td>Tea</td><td>2</td></tr></tbody></table>';
+			expect(htmlToMarkdown(html)).toBe('| Name | Qty |\n| --- | --- |\n| Tea | 2 |');
+		});
+
+		it('uses the first row as header without thead', () => {
+			const html = '<table><tr><td>a</td><td>b</td></tr><tr><td>1</td><td>2</td></tr></table>';
+			expect(htmlToMarkdown(html)).toBe('| a | b |\n| --- | --- |\n| 1 | 2 |');
+		});
+
+		it('escapes pipes and keeps line breaks in cells', () => {
+			const html = '<table><tr><th>x</th><th>y</th></tr><tr><td>a|b</td><td>one<br>two</td></tr></table>';
+			expect(htmlToMarkdown(html)).toBe('| x | y |\n| --- | --- |\n| a\\|b | one<br>two |');
+		});
+
+		it('pads cells spanning several columns', () => {
+			const html = '<table><tr><th>a</th><th>b</th><th>c</th></tr><tr><td colspan="2">wide</td><td>c</td></tr></table>';
+			expect(htmlToMarkdown(html)).toBe('| a | b | c |\n| --- | --- | --- |\n| wide |  | c |');
+		});
+
+		it('renders layout tables as blocks', () => {
+			const html = '<table role="presentation"><tr><td><p>Hello</p></td><td><p>World</p></td></tr></table>';
+			expect(htmlToMarkdown(html)).toBe('Hello\n\nWorld');
+		});
+
+		it('renders the outer table of nested tables as layout', () => {
+			const html = '<table><tr><td><h1>Title</h1>' +
+				'<table><tr><th>k</th><th>v</th></tr><tr><td>a</td><td>1</td></tr></table>' +
+				'</td><td>side</td></tr></table>';
+			expect(htmlToMarkdown(html)).toBe('# Title\n\n| k | v |\n| --- | --- |\n| a | 1 |\n\nside');
+		});
+	});
+
+	describe('blockquotes', () => {
+		it('prefixes every line of a quote', () => {
+			expect(htmlToMarkdown('<blockquote><p>one</p><p>two</p></blockquote>')).toBe('> one\n>\n> two');
+		});
+
+		it('nests quotes of quotes', () => {
+			const html = '<p>Reply</p><blockquote><p>Earlier</p><blockquote><p>Original</p></blockquote></blockquote>';
+			expect(htmlToMarkdown(html)).toBe('Reply\n\n> Earlier\n>\n> > Original');
+		});
+	});
+
+	describe('preformatted text', () => {
+		it('fences <pre> blocks with the language of their code', () => {
+			const html = '<pre><code class="language-ts">const a = 1;\n  return a;</code></pre>';
+			expect(htmlToMarkdown(html)).toBe('```ts\nconst a = 1;\n  return a;\n```');
+		});
+
+		it('keeps whitespace and turns <br> into line breaks', () => {
+			expect(htmlToMarkdown('<pre>a    b<br>c</pre>')).toBe('```\na    b\nc\n```');
+		});
+
+		it('uses a longer fence when the content holds backticks', () => {
+			expect(htmlToMarkdown('<pre>```\nx\n```</pre>')).toBe('````\n```\nx\n```\n````');
+		});
+
+		it('does not convert markup inside <pre>', () => {
+			expect(htmlToMarkdown('<pre><b>bold</b> *star*</pre>')).toBe('```\nbold *star*\n```');
+		});
+	});
+
+	describe('inline content', () => {
+		it('converts inline marks', () => {
+			expect(htmlToMarkdown('<p><b>b</b> <em>e</em> <del>d</del> <mark>m</mark> <code>c</code></p>'))
+				.toBe('**b** *e* ~~d~~ ==m== `c`');
+		});
+
+		it('escapes brackets in link text but not in linked images', () => {
+			expect(htmlToMarkdown('<a href="https://a.example/">[1] <img src="https://a.example/i.png" alt="i"></a>'))
+				.toBe('[\\[1\\] ![i](https://a.example/i.png)](https://a.example/)');
+		});
+
+		it('keeps the text of links with unsafe URLs', () => {
+			expect(htmlToMarkdown('<a href="javascript:alert(1)">x</a> <a href="mailto:a@example.com">mail</a>'))
+				.toBe('x [mail](mailto:a@example.com)');
+		});
+
+		it('skips hidden elements and scripts', () => {
+			expect(htmlToMarkdown('<div style="display:none">preheader</div><script>x()</script><p hidden>h</p><p>shown</p>'))
+				.toBe('shown');
+		});
+	});
+});
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+import { EmlStreamParser, ParsedEmail } from '../eml-parser';
+import { MboxSplitter } from '../mbox-parser';
+
+/**
+ * Split an archive fed in chunks of the given size, collecting the messages as strings
+ */
+function split(archive: string | Buffer, chunkSize = Infinity): string[] {
+	const data = Buffer.isBuffer(archive) ? archive : Buffer.from(archive, 'latin1');
+	const messages: string[] = [];
+	let parts: Buffer[] = [];
+	const splitter = new MboxSplitter({
+		start: () => {
+			parts = [];
+		},
+		write: bytes => {
+			parts.push(Buffer.from(bytes));
+		},
+		end: () => {
+			messages.push(Buffer.concat(parts).toString('latin1'));
+		}
+	});
+	for (let start = 0; start < data.length; start += Math.min(chunkSize, data.length)) {
+		splitter.write(data.subarray(start, start + chunkSize));
+	}
+	splitter.end();
+	return messages;
+}
+
+const ARCHIVE = [
+	'From alice@example.com Mon Mar  4 09:12:00 2024',
+	'Subject: One',
+	'',
+	'First body',
+	'>From the start',
+	'>>From mboxrd',
+	'',
+	'From bob@example.com Mon Mar  4 10:00:00 2024',
+	'Subject: Two',
+	'',
+	'Second body',
+	'From here on, not a separator',
+	''
+].join('\n');
+
+describe('MboxSplitter', () => {
+	it('splits messages at separators after blank lines and unescapes From lines', () => {
+		expect(split(ARCHIVE)).toEqual([
+			'Subject: One\n\nFirst body\nFrom the start\n>From mboxrd\n',
+			'Subject: Two\n\nSecond body\nFrom here on, not a separator\n'
+		]);
+	});
+
+	it('gives the same messages whatever the chunk size', () => {
+		const whole = split(ARCHIVE);
+		for (const size of [1, 2, 3, 7, 64]) {
+			expect(split(ARCHIVE, size)).toEqual(whole);
+		}
+	});
+
+	it('keeps CRLF line breaks and drops the separating blank line', () => {
+		const archive = 'From a\r\nSubject: A\r\n\r\nBody\r\n\r\nFrom b\r\nSubject: B\r\n\r\nBody\r\n';
+		expect(split(archive, 5)).toEqual(['Subject: A\r\n\r\nBody\r\n', 'Subject: B\r\n\r\nBody\r\n']);
+	});
+
+	it('ignores text before the first separator and empty messages', () => {
+		expect(split('garbage\n\nFrom a\n\n\nFrom b\nSubject: B\n')).toEqual(['Subject: B\n']);
+	});
+
+	it('passes long lines on in pieces without losing bytes', () => {
+		const line = 'x'.repeat(50000);
+		const messages = split(`From a\nSubject: Long\n\n${line}\nend\n`, 4096);
+		expect(messages).toEqual([`Subject: Long\n\n${line}\nend\n`]);
+	});
+
+	it('feeds each message to a stream parser', () => {
+		const emails: ParsedEmail[] = [];
+		let parser = new EmlStreamParser();
+		const splitter = new MboxSplitter({
+			start: () => {
+				parser = new EmlStreamParser();
+			},
+			write: bytes => parser.write(bytes),
+			end: () => {
+				emails.push(parser.end());
+			}
+		});
+		splitter.write(Buffer.from(ARCHIVE, 'latin1'));
+		splitter.end();
+		expect(emails.map(email => [email.subject, email.textBody.trim()])).toEqual([
+			['One', 'First body\nFrom the start\n>From mboxrd'],
+			['Two', 'Second body\nFrom here on, not a separator']
+		]);
+	});
+});
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+import { parseMsg } from '../msg-parser';
+
+const END_OF_CHAIN = 0xFFFFFFFE;
+const FREE_SECTOR = 0xFFFFFFFF;
+const FAT_SECTOR = 0xFFFFFFFD;
+const NO_STREAM = 0xFFFFFFFF;
+const SECTOR_SIZE = 512;
+
+interface Node {
+	name: string;
+	// Streams have content, storages children
+	content?: Buffer;
+	children?: Node[];
+}
+
+/**
+ * Write a compound file holding the given storages and streams. Streams all live in regular
+ * sectors (mini stream cutoff 0) and siblings are chained through their right links.
+ */
+function buildCompoundFile(root: Node[]): Buffer {
+	const entries: { node: Node; type: number; child: number; right: number; start: number; size: number }[] = [];
+	const addEntries = (nodes: Node[]): number => {
+		const ids = nodes.map(node => {
+			entries.push({ node, type: node.children ? 1 : 2, child: NO_STREAM, right: NO_STREAM, start: END_OF_CHAIN, size: 0 });
+			return entries.length - 1;
+		});
+		nodes.forEach((node, i) => {
+			entries[ids[i]].right = i + 1 < ids.length ? ids[i + 1] : NO_STREAM;
+			if (node.children) entries[ids[i]].child = addEntries(node.children);
+		});
+		return ids.length > 0 ? ids[0] : NO_STREAM;
+	};
+	entries.push({ node: { name: 'Root Entry' }, type: 5, child: NO_STREAM, right: NO_STREAM, start: END_OF_CHAIN, size: 0 });
+	entries[0].child = addEntries(root);
+
+	// Sector 0 holds the FAT, then one run of sectors per stream and the directory
+	const fat: number[] = [FAT_SECTOR];
+	const sectors: Buffer[] = [];
+	const allocate = (data: Buffer): number => {
+		const count = Math.max(1, Math.ceil(data.length / SECTOR_SIZE));
+		const first = fat.length;
+		for (let i = 0; i < count; i++) {
+			fat.push(i + 1 < count ? first + i + 1 : END_OF_CHAIN);
+			const sector = Buffer.alloc(SECTOR_SIZE);
+			data.copy(sector, 0, i * SECTOR_SIZE, (i + 1) * SECTOR_SIZE);
+			sectors.push(sector);
+		}
+		return first;
+	};
+
+	const directory = Buffer.alloc(Math.ceil(entries.length / 4) * SECTOR_SIZE);
+	entries.forEach((entry, id) => {
+		if (entry.node.content && entry.node.content.length > 0) {
+			entry.start = allocate(entry.node.content);
+			entry.size = entry.node.content.length;
+		}
+		const offset = id * 128;
+		directory.write(entry.node.name, offset, 'utf16le');
+		directory.writeUInt16LE((entry.node.name.length + 1) * 2, offset + 0x40);
+		directory.writeUInt8(entry.type, offset + 0x42);
+		directory.writeUInt32LE(NO_STREAM, offset + 0x44);
+		directory.writeUInt32LE(entry.right, offset + 0x48);
+		directory.writeUInt32LE(entry.child, offset + 0x4C);
+		directory.writeUInt32LE(entry.start, offset + 0x74);
+		directory.writeUInt32LE(entry.size, offset + 0x78);
+	});
+	const directoryStart = allocate(directory);
+
+	const fatSector = Buffer.alloc(SECTOR_SIZE, 0xFF);
+	fat.forEach((value, i) => fatSector.writeUInt32LE(value, i * 4));
+
+	const header = Buffer.alloc(SECTOR_SIZE, 0xFF);
+	Buffer.from('d0cf11e0a1b11ae1', 'hex').copy(header);
+	header.writeUInt16LE(9, 0x1E);
+	header.writeUInt16LE(6, 0x20);
+	header.writeUInt32LE(1, 0x2C);
+	header.writeUInt32LE(directoryStart, 0x30);
+	header.writeUInt32LE(0, 0x38);
+	header.writeUInt32LE(END_OF_CHAIN, 0x3C);
+	header.writeUInt32LE(END_OF_CHAIN, 0x44);
+	header.writeUInt32LE(0, 0x4C);
+	return Buffer.concat([header, fatSector, ...sectors]);
+}
+
+function unicode(id: string, value: string): Node {
+	return { name: `__substg1.0_${id}001F`, content: Buffer.from(value, 'utf16le') };
+}
+
+/**
+ * Property stream with the given PT_LONG values, after a header of the given size
+ */
+function properties(headerSize: number, longs: { [id: number]: number } = {}): Node {
+	const ids = Object.keys(longs).map(Number);
+	const content = Buffer.alloc(headerSize + ids.length * 16);
+	ids.forEach((id, i) => {
+		const offset = headerSize + i * 16;
+		content.writeUInt16LE(0x0003, offset);
+		content.writeUInt16LE(id, offset + 2);
+		content.writeUInt32LE(longs[id], offset + 8);
+	});
+	return { name: '__properties_version1.0', content };
+}
+
+function attachment(index: number, method: number, data: Node[]): Node {
+	return {
+		name: `__attach_version1.0_#0000000${index}`,
+		children: [properties(8, { 0x3705: method }), { name: '__substg1.0_3701000D', children: data }]
+	};
+}
+
+describe('parseMsg', () => {
+	it('parses attached messages but skips embedded OLE objects', () => {
+		const msg = buildCompoundFile([
+			properties(32),
+			unicode('0037', 'Quarterly report'),
+			attachment(0, 6, [{ name: '\u0001Ole', content: Buffer.alloc(20, 1) }, { name: 'CONTENTS', content: Buffer.from('chart') }]),
+			attachment(1, 5, [properties(24), unicode('0037', 'Figures'), unicode('1000', 'See the figures')])
+		]);
+
+		const email = parseMsg(msg);
+		expect(email.subject).toBe('Quarterly report');
+		expect(email.attachments).toEqual([]);
+		expect(email.attachedMessages.map(message => [message.subject, message.textBody])).toEqual([
+			['Figures', 'See the figures']
+		]);
+	});
+});
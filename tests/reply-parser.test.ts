@@ -0,0 +1,73 @@
+import { splitReplyHtml, splitReplyText } from '../reply-parser';
+
+const FORWARDED = [
+	'---------- Forwarded message ---------',
+	'From: Anna Smith <anna@example.com>',
+	'Date: Mon, 4 Mar 2024 at 09:12',
+	'Subject: Agenda',
+	'To: Tom Jones <tom@example.com>',
+	'',
+	'Hi Tom, here is the agenda.',
+	'',
+	'1. Budget review',
+	'2. Hiring plan'
+].join('\n');
+
+describe('splitReplyText', () => {
+	it('splits a reply from the quoted message below its attribution', () => {
+		const text = 'Sounds good.\n\nOn Mon, 4 Mar 2024 at 09:12, Anna <anna@example.com> wrote:\n> Lunch at noon?';
+		expect(splitReplyText(text)).toEqual({
+			body: 'Sounds good.',
+			signature: '',
+			quoted: 'On Mon, 4 Mar 2024 at 09:12, Anna <anna@example.com> wrote:\n> Lunch at noon?'
+		});
+	});
+
+	it('splits a reply above an Outlook header block', () => {
+		const text = 'Thanks!\n\nFrom: Anna <anna@example.com>\nSent: Monday, March 4, 2024 9:12 AM\nTo: Tom\nSubject: Agenda\n\nHi Tom';
+		const parts = splitReplyText(text);
+		expect(parts.body).toBe('Thanks!');
+		expect(parts.quoted).toBe('From: Anna <anna@example.com>\nSent: Monday, March 4, 2024 9:12 AM\nTo: Tom\nSubject: Agenda\n\nHi Tom');
+	});
+
+	it('keeps a forward without comment as the body', () => {
+		expect(splitReplyText(FORWARDED)).toEqual({ body: FORWARDED, signature: '', quoted: '' });
+	});
+
+	it('keeps a forwarded message below a comment as the body', () => {
+		const text = `FYI, see below.\n\n${FORWARDED}`;
+		expect(splitReplyText(text)).toEqual({ body: text, signature: '', quoted: '' });
+	});
+
+	it('keeps a header block that begins the message as the body', () => {
+		const text = 'From: Anna <anna@example.com>\nSent: Monday, March 4, 2024 9:12 AM\nTo: Tom\n\nHi Tom';
+		expect(splitReplyText(text)).toEqual({ body: text, signature: '', quoted: '' });
+	});
+
+	it('splits off the signature', () => {
+		expect(splitReplyText('Hello\n\n-- \nTom Jones\nExample Inc.')).toEqual({
+			body: 'Hello',
+			signature: 'Tom Jones\nExample Inc.',
+			quoted: ''
+		});
+	});
+});
+
+describe('splitReplyHtml', () => {
+	it('splits off the Gmail quote of a reply', () => {
+		const html = '<div dir="ltr">Sounds good.</div><div class="gmail_quote"><div class="gmail_attr">On Mon, Anna wrote:</div>' +
+			'<blockquote>Lunch?</blockquote></div>';
+		const parts = splitReplyHtml(html);
+		expect(parts.html).toBe('<div dir="ltr">Sounds good.</div>');
+		expect(parts.quotedHtml).toContain('Lunch?');
+	});
+
+	it('keeps a Gmail forward in the body', () => {
+		const html = '<div dir="ltr">FYI<br><div class="gmail_quote"><div class="gmail_attr">' +
+			'---------- Forwarded message ---------<br>From: Anna &lt;anna@example.com&gt;<br>Subject: Agenda</div>' +
+			'<div>Hi Tom, here is the agenda.</div></div></div>';
+		const parts = splitReplyHtml(html);
+		expect(parts.quotedHtml).toBe('');
+		expect(parts.html).toContain('Hi Tom, here is the agenda.');
+	});
+});
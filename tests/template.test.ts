@@ -0,0 +1,27 @@
+import { DEFAULT_TEMPLATE, USER_NOTES_MARKER, extractMessageBody, renderTemplate } from '../template';
+
+const options = { formatDate: (date: Date) => date.toISOString() };
+
+describe('extractMessageBody', () => {
+	it('takes the body out of a note in the default layout', () => {
+		const note = renderTemplate(DEFAULT_TEMPLATE, {
+			title: 'Agenda',
+			showHeaders: true,
+			from: 'anna@example.com',
+			senders: 'Anna Smith',
+			to: 'Tom Jones',
+			date: '2024-03-04',
+			attachmentsTop: true,
+			attachmentsBottom: true,
+			attachments: [{ embed: '![[agenda.pdf]]' }],
+			body: 'Hi Tom,\n\n---\n\nhere is the agenda. %%draft%%',
+			attachedMessages: '- [[Budget]]'
+		}, options);
+		expect(extractMessageBody(`${note}\nMy own notes`)).toBe('Hi Tom,\n\n---\n\nhere is the agenda.');
+	});
+
+	it('keeps a note without the generated sections as it is', () => {
+		const text = 'Dear team,\n\nsee you Monday.\n\n### Agenda\n\n- Budget';
+		expect(extractMessageBody(`${text}\n\n${USER_NOTES_MARKER}\nkept`)).toBe(text);
+	});
+});
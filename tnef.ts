@@ -0,0 +1,318 @@
+/**
+ * TNEF (winmail.dat, application/ms-tnef) decoder (MS-OXTNEF)
+ * Extracts the attachments and the body Outlook wraps into a single part
+ */
+
+import { Attachment, ParsedEmail, parseEml } from './eml-parser';
+import { codePageToCharset, decodeBytes } from './charset';
+import { decompressRtf, rtfToBody } from './rtf';
+
+const TNEF_SIGNATURE = 0x223E9F78;
+
+// Attribute levels
+const LVL_MESSAGE = 1;
+const LVL_ATTACHMENT = 2;
+
+// Attribute ids (low word of the attribute tag)
+const ATT_SUBJECT = 0x8004;
+const ATT_BODY = 0x800C;
+const ATT_ATTACH_DATA = 0x800F;
+const ATT_ATTACH_TITLE = 0x8010;
+const ATT_ATTACH_REND_DATA = 0x9002;
+const ATT_MAPI_PROPS = 0x9003;
+const ATT_ATTACHMENT = 0x9005;
+const ATT_OEM_CODEPAGE = 0x9007;
+
+// MAPI property types
+const PT_SHORT = 0x0002;
+const PT_LONG = 0x0003;
+const PT_FLOAT = 0x0004;
+const PT_DOUBLE = 0x0005;
+const PT_CURRENCY = 0x0006;
+const PT_APPTIME = 0x0007;
+const PT_ERROR = 0x000A;
+const PT_BOOLEAN = 0x000B;
+const PT_OBJECT = 0x000D;
+const PT_I8 = 0x0014;
+const PT_STRING8 = 0x001E;
+const PT_UNICODE = 0x001F;
+const PT_SYSTIME = 0x0040;
+const PT_CLSID = 0x0048;
+const PT_BINARY = 0x0102;
+const MV_FLAG = 0x1000;
+
+// MAPI property ids
+const PR_SUBJECT = 0x0037;
+const PR_BODY = 0x1000;
+const PR_RTF_COMPRESSED = 0x1009;
+const PR_HTML = 0x1013;
+const PR_INTERNET_CPID = 0x3FDE;
+const PR_ATTACH_DATA = 0x3701;
+const PR_ATTACH_FILENAME = 0x3704;
+const PR_ATTACH_LONG_FILENAME = 0x3707;
+const PR_ATTACH_MIME_TAG = 0x370E;
+const PR_ATTACH_CONTENT_ID = 0x3712;
+const PR_DISPLAY_NAME = 0x3001;
+
+// Maximum depth of messages embedded in TNEF attachments
+const MAX_NESTING_DEPTH = 10;
+
+type MapiValue = number | Buffer;
+
+/**
+ * MAPI properties read from an attMAPIProps or attAttachment attribute
+ */
+class MapiProperties {
+	private values = new Map<number, { type: number; value: MapiValue }>();
+	private charset: string;
+
+	constructor(data: Buffer, charset: string) {
+		this.charset = charset;
+		try {
+			this.read(data);
+		} catch (e) {
+			// Keep the properties read before the damaged or unsupported one
+			console.error('Failed to read TNEF properties:', e);
+		}
+	}
+
+	private read(data: Buffer): void {
+		let offset = 0;
+		const count = data.readUInt32LE(offset);
+		offset += 4;
+
+		for (let p = 0; p < count && offset + 4 <= data.length; p++) {
+			const type = data.readUInt16LE(offset);
+			const id = data.readUInt16LE(offset + 2);
+			offset += 4;
+
+			// Named properties carry their GUID and name or id
+			if (id >= 0x8000) {
+				offset += 16;
+				const kind = data.readUInt32LE(offset);
+				offset += 4;
+				if (kind === 0) {
+					offset += 4;
+				} else {
+					const length = data.readUInt32LE(offset);
+					offset += 4 + pad(length);
+				}
+			}
+
+			const baseType = type & ~MV_FLAG;
+			const isVariable = [PT_STRING8, PT_UNICODE, PT_BINARY, PT_OBJECT].includes(baseType);
+			let valueCount = 1;
+			if ((type & MV_FLAG) || isVariable) {
+				valueCount = data.readUInt32LE(offset);
+				offset += 4;
+			}
+
+			for (let v = 0; v < valueCount; v++) {
+				let value: MapiValue;
+				if (isVariable) {
+					const length = data.readUInt32LE(offset);
+					value = data.subarray(offset + 4, offset + 4 + length);
+					offset += 4 + pad(length);
+				} else {
+					const size = fixedSize(baseType);
+					value = size === 4 || size === 2 ? data.readUInt32LE(offset) : data.subarray(offset, offset + size);
+					offset += pad(size);
+				}
+
+				// Multi-valued properties keep their first value
+				if (v === 0) {
+					this.values.set(id, { type: baseType, value });
+				}
+			}
+		}
+	}
+
+	getString(id: number): string {
+		const entry = this.values.get(id);
+		if (!entry || !Buffer.isBuffer(entry.value)) return '';
+		if (entry.type === PT_UNICODE) {
+			return entry.value.toString('utf16le').replace(/\0+$/, '');
+		}
+		return decodeBytes(entry.value, this.charset).replace(/\0+$/, '');
+	}
+
+	getBinary(id: number): Buffer | null {
+		const entry = this.values.get(id);
+		return entry && Buffer.isBuffer(entry.value) ? entry.value : null;
+	}
+
+	getLong(id: number): number {
+		const entry = this.values.get(id);
+		return entry && typeof entry.value === 'number' ? entry.value : 0;
+	}
+
+	getType(id: number): number {
+		return this.values.get(id)?.type || 0;
+	}
+}
+
+/**
+ * Size of a fixed-length property value
+ */
+function fixedSize(type: number): number {
+	switch (type) {
+		case PT_SHORT:
+			return 2;
+		case PT_LONG:
+		case PT_FLOAT:
+		case PT_ERROR:
+		case PT_BOOLEAN:
+			return 4;
+		case PT_DOUBLE:
+		case PT_CURRENCY:
+		case PT_APPTIME:
+		case PT_I8:
+		case PT_SYSTIME:
+			return 8;
+		case PT_CLSID:
+			return 16;
+		default:
+			throw new Error(`Unsupported MAPI property type 0x${type.toString(16)}`);
+	}
+}
+
+/**
+ * Round a length up to a multiple of 4
+ */
+function pad(length: number): number {
+	return Math.ceil(length / 4) * 4;
+}
+
+/**
+ * Read a null-terminated 8-bit string attribute
+ */
+function readString8(data: Buffer, charset: string): string {
+	return decodeBytes(data, charset).replace(/\0[\s\S]*$/, '');
+}
+
+interface PendingAttachment {
+	title: string;
+	data: Buffer | null;
+	props: MapiProperties | null;
+}
+
+/**
+ * Check if data starts with the TNEF signature
+ */
+export function isTnef(data: Buffer): boolean {
+	return data.length >= 6 && data.readUInt32LE(0) === TNEF_SIGNATURE;
+}
+
+/**
+ * Decode a TNEF stream into the email fields it carries
+ */
+export function parseTnef(data: Buffer, depth = 0): ParsedEmail {
+	if (!isTnef(data)) {
+		throw new Error('Not a TNEF stream (missing signature)');
+	}
+
+	// Empty structure with every field of ParsedEmail
+	const result = parseEml('');
+	result.size = data.length;
+	let charset = 'windows-1252';
+	let messageProps: MapiProperties | null = null;
+	let plainBody = '';
+	const pending: PendingAttachment[] = [];
+
+	let offset = 6;
+	while (offset + 9 <= data.length) {
+		const level = data[offset];
+		const id = data.readUInt32LE(offset + 1) & 0xFFFF;
+		const length = data.readUInt32LE(offset + 5);
+		const value = data.subarray(offset + 9, offset + 9 + length);
+		// Attribute data is followed by a 2-byte checksum
+		offset += 9 + length + 2;
+
+		if (level === LVL_MESSAGE) {
+			if (id === ATT_OEM_CODEPAGE && value.length >= 4) {
+				charset = codePageToCharset(value.readUInt32LE(0)) || charset;
+			} else if (id === ATT_SUBJECT) {
+				result.subject = readString8(value, charset);
+			} else if (id === ATT_BODY) {
+				plainBody = readString8(value, charset);
+			} else if (id === ATT_MAPI_PROPS) {
+				messageProps = new MapiProperties(value, charset);
+			}
+		} else if (level === LVL_ATTACHMENT) {
+			if (id === ATT_ATTACH_REND_DATA) {
+				pending.push({ title: '', data: null, props: null });
+			}
+			const current = pending[pending.length - 1];
+			if (!current) continue;
+
+			if (id === ATT_ATTACH_TITLE) {
+				current.title = readString8(value, charset);
+			} else if (id === ATT_ATTACH_DATA) {
+				current.data = value;
+			} else if (id === ATT_ATTACHMENT) {
+				current.props = new MapiProperties(value, charset);
+			}
+		}
+	}
+
+	// Bodies: HTML, then the RTF body (which may wrap HTML), then plain text
+	if (messageProps) {
+		result.subject = result.subject || messageProps.getString(PR_SUBJECT);
+		result.textBody = messageProps.getString(PR_BODY);
+
+		const html = messageProps.getBinary(PR_HTML);
+		if (html && messageProps.getType(PR_HTML) === PT_BINARY) {
+			const cpid = messageProps.getLong(PR_INTERNET_CPID);
+			result.htmlBody = decodeBytes(html, cpid ? codePageToCharset(cpid) : '').replace(/\0+$/, '');
+		} else {
+			result.htmlBody = messageProps.getString(PR_HTML);
+		}
+
+		const rtf = messageProps.getBinary(PR_RTF_COMPRESSED);
+		if (rtf && !result.htmlBody) {
+			try {
+				const body = rtfToBody(decompressRtf(rtf));
+				result.htmlBody = body.html;
+				result.textBody = result.textBody || body.text;
+			} catch (e) {
+				console.error('Failed to decode RTF body:', e);
+			}
+		}
+	}
+	result.textBody = result.textBody || plainBody;
+
+	pending.forEach((item, index) => {
+		const props = item.props;
+
+		// Embedded messages are TNEF streams themselves, after a 16-byte interface id
+		if (props && props.getType(PR_ATTACH_DATA) === PT_OBJECT) {
+			const object = props.getBinary(PR_ATTACH_DATA);
+			if (object && object.length > 16 && isTnef(object.subarray(16)) && depth < MAX_NESTING_DEPTH) {
+				try {
+					result.attachedMessages.push(parseTnef(object.subarray(16), depth + 1));
+					return;
+				} catch (e) {
+					console.error('Failed to decode embedded TNEF message:', e);
+				}
+			}
+		}
+
+		const content = item.data || props?.getBinary(PR_ATTACH_DATA);
+		if (!content) return;
+
+		const contentId = props?.getString(PR_ATTACH_CONTENT_ID) || '';
+		const attachment: Attachment = {
+			filename: props?.getString(PR_ATTACH_LONG_FILENAME) ||
+				item.title ||
+				props?.getString(PR_ATTACH_FILENAME) ||
+				props?.getString(PR_DISPLAY_NAME) ||
+				`attachment_${index + 1}`,
+			contentType: (props?.getString(PR_ATTACH_MIME_TAG) || 'application/octet-stream').toLowerCase(),
+			content,
+			contentId: contentId ? contentId.replace(/[<>]/g, '') : undefined
+		};
+		result.attachments.push(attachment);
+	});
+
+	return result;
+}
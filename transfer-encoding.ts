@@ -0,0 +1,222 @@
+/**
+ * Incremental Content-Transfer-Encoding decoders
+ * Body bytes are fed in pieces as the message is read, so a part is never held
+ * both encoded and decoded, nor converted to a string to be decoded
+ */
+
+// Sizes of the blocks decoded bytes are collected in, growing with the part
+const MIN_BLOCK_SIZE = 1024;
+const MAX_BLOCK_SIZE = 64 * 1024;
+
+// Value of each base64 character, -1 for characters that are skipped (line breaks, ...)
+const BASE64_VALUES = new Int8Array(256).fill(-1);
+'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'.split('').forEach((char, index) => {
+	BASE64_VALUES[char.charCodeAt(0)] = index;
+});
+// URL-safe alphabet, used by a few webmail exports
+BASE64_VALUES['-'.charCodeAt(0)] = 62;
+BASE64_VALUES['_'.charCodeAt(0)] = 63;
+
+const EQUALS = 0x3D;
+const CR = 0x0D;
+const LF = 0x0A;
+
+export interface BodyDecoder {
+	write(data: Uint8Array): void;
+	// Decoded body
+	end(): Buffer;
+}
+
+/**
+ * Collects bytes in fixed-size blocks, avoiding a reallocation per write
+ */
+class ByteCollector {
+	private blocks: Buffer[] = [];
+	private current = Buffer.allocUnsafe(MIN_BLOCK_SIZE);
+	private position = 0;
+	private length = 0;
+
+	push(byte: number): void {
+		if (this.position === this.current.length) {
+			this.nextBlock();
+		}
+		this.current[this.position++] = byte;
+		this.length++;
+	}
+
+	pushBytes(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.length) {
+			if (this.position === this.current.length) {
+				this.nextBlock();
+			}
+			const count = Math.min(data.length - offset, this.current.length - this.position);
+			this.current.set(data.subarray(offset, offset + count), this.position);
+			this.position += count;
+			offset += count;
+		}
+		this.length += data.length;
+	}
+
+	private nextBlock(): void {
+		this.blocks.push(this.current);
+		this.current = Buffer.allocUnsafe(Math.min(MAX_BLOCK_SIZE, Math.max(MIN_BLOCK_SIZE, this.length)));
+		this.position = 0;
+	}
+
+	toBuffer(): Buffer {
+		const result = Buffer.concat([...this.blocks, this.current.subarray(0, this.position)], this.length);
+		this.blocks = [];
+		this.current = Buffer.alloc(0);
+		this.position = 0;
+		return result;
+	}
+}
+
+/**
+ * 7bit, 8bit and binary bodies: the raw bytes, unchanged
+ */
+class IdentityDecoder implements BodyDecoder {
+	private output = new ByteCollector();
+
+	write(data: Uint8Array): void {
+		this.output.pushBytes(data);
+	}
+
+	end(): Buffer {
+		return this.output.toBuffer();
+	}
+}
+
+/**
+ * Base64 bodies, decoded four characters at a time
+ */
+class Base64Decoder implements BodyDecoder {
+	private output = new ByteCollector();
+	// Sextets of the incomplete group, carried over to the next write
+	private bits = 0;
+	private count = 0;
+
+	write(data: Uint8Array): void {
+		for (let i = 0; i < data.length; i++) {
+			const byte = data[i];
+			if (byte === EQUALS) {
+				// Padding ends the group; more data may follow in concatenated encodings
+				this.flushPartial();
+				continue;
+			}
+			const value = BASE64_VALUES[byte];
+			if (value < 0) continue;
+
+			this.bits = (this.bits << 6) | value;
+			this.count++;
+			if (this.count === 4) {
+				this.output.push((this.bits >> 16) & 0xFF);
+				this.output.push((this.bits >> 8) & 0xFF);
+				this.output.push(this.bits & 0xFF);
+				this.bits = 0;
+				this.count = 0;
+			}
+		}
+	}
+
+	end(): Buffer {
+		this.flushPartial();
+		return this.output.toBuffer();
+	}
+
+	private flushPartial(): void {
+		if (this.count === 2) {
+			this.output.push((this.bits >> 4) & 0xFF);
+		} else if (this.count === 3) {
+			this.output.push((this.bits >> 10) & 0xFF);
+			this.output.push((this.bits >> 2) & 0xFF);
+		}
+		this.bits = 0;
+		this.count = 0;
+	}
+}
+
+/**
+ * Quoted-printable bodies: =XX escapes and soft line breaks
+ */
+class QuotedPrintableDecoder implements BodyDecoder {
+	private output = new ByteCollector();
+	// Bytes of an escape split across writes
+	private pending: number[] = [];
+
+	write(data: Uint8Array): void {
+		for (let i = 0; i < data.length; i++) {
+			const byte = data[i];
+			if (this.pending.length > 0 || byte === EQUALS) {
+				this.pending.push(byte);
+				this.decodePending();
+			} else {
+				this.output.push(byte);
+			}
+		}
+	}
+
+	end(): Buffer {
+		// An incomplete escape at the very end is kept as it is
+		this.pending.forEach(byte => this.output.push(byte));
+		this.pending = [];
+		return this.output.toBuffer();
+	}
+
+	/**
+	 * Decode the escape started by "=" once enough bytes are known
+	 */
+	private decodePending(): void {
+		const [, first, second] = this.pending;
+		if (first === undefined) return;
+
+		// Soft line break: "=\n" or "=\r\n"
+		if (first === LF) {
+			this.pending = [];
+			return;
+		}
+		if (first === CR) {
+			if (second === undefined) return;
+			if (second === LF) {
+				this.pending = [];
+				return;
+			}
+		} else if (second === undefined && isHexDigit(first)) {
+			return;
+		}
+
+		if (second !== undefined && isHexDigit(first) && isHexDigit(second)) {
+			this.output.push(parseInt(String.fromCharCode(first, second), 16));
+			this.pending = [];
+			return;
+		}
+
+		// Not an escape: keep the "=" and go on with the bytes after it
+		const rest = this.pending.slice(1);
+		this.pending = [];
+		this.output.push(EQUALS);
+		this.write(Uint8Array.from(rest));
+	}
+}
+
+/**
+ * Check if a byte is an ASCII hex digit
+ */
+function isHexDigit(byte: number): boolean {
+	return (byte >= 0x30 && byte <= 0x39) || (byte >= 0x41 && byte <= 0x46) || (byte >= 0x61 && byte <= 0x66);
+}
+
+/**
+ * Create the decoder of a Content-Transfer-Encoding (lowercase)
+ */
+export function createBodyDecoder(encoding: string): BodyDecoder {
+	switch (encoding) {
+		case 'base64':
+			return new Base64Decoder();
+		case 'quoted-printable':
+			return new QuotedPrintableDecoder();
+		default:
+			return new IdentityDecoder();
+	}
+}